@@ -0,0 +1,73 @@
+import { WebXRAbstractMotionController, WebXRInputSource } from '@babylonjs/core';
+import { describe, expect, it } from 'vitest';
+
+import { FakeMotionController, QuestComponentIds } from '../harness/FakeXrSession';
+import { InputActionEvent, InputActionMap } from './InputActions';
+
+const motionController = (handedness: XRHandedness, profileId: string, componentIds: string[]) =>
+    new FakeMotionController(handedness, profileId, componentIds) as unknown as WebXRAbstractMotionController;
+
+
+describe('InputActionMap', () => {
+    it('binds the default components of the controllers and hands', () => {
+        const actions = new InputActionMap();
+
+        expect(actions.getComponentId("select", motionController("right", "oculus-touch-v3", QuestComponentIds.right))).toBe("xr-standard-trigger");
+        expect(actions.getComponentId("toggleDoor", motionController("left", "oculus-touch-v3", QuestComponentIds.left))).toBe("x-button");
+        expect(actions.getComponentId("menu", motionController("right", "oculus-touch-v3", QuestComponentIds.right))).toBe("b-button");
+        expect(actions.getComponentId("grab", motionController("left", "generic-hand-select-grasp", ["xr-standard-trigger", "grasp"]))).toBe("grasp");
+        expect(actions.getComponentId("toggleDoor", motionController("left", "generic-hand-select-grasp", ["xr-standard-trigger", "grasp"]))).toBeNull();
+    });
+
+
+    it('prefers the most specific binding', () => {
+        const actions = new InputActionMap([
+            { action: "select", componentId: "xr-standard-trigger" },
+            { action: "select", componentId: "b-button", handedness: "right" },
+            { action: "select", componentId: "thumbrest", profileId: "meta-quest-touch-plus" },
+            { action: "select", componentId: "xr-standard-squeeze", profileId: "meta-quest-touch-plus", handedness: "right" },
+        ]);
+
+        expect(actions.getComponentId("select", motionController("left", "oculus-touch-v3", QuestComponentIds.left))).toBe("xr-standard-trigger");
+        expect(actions.getComponentId("select", motionController("right", "oculus-touch-v3", QuestComponentIds.right))).toBe("b-button");
+        expect(actions.getComponentId("select", motionController("left", "meta-quest-touch-plus", QuestComponentIds.left))).toBe("thumbrest");
+        expect(actions.getComponentId("select", motionController("right", "meta-quest-touch-plus", QuestComponentIds.right))).toBe("xr-standard-squeeze");
+        // The default grab binding is kept, as only select was bound
+        expect(actions.getComponentId("grab", motionController("right", "oculus-touch-v3", QuestComponentIds.right))).toBe("xr-standard-squeeze");
+    });
+
+
+    it('skips bindings the controller has no component for', () => {
+        const actions = new InputActionMap([
+            { action: "menu", componentId: "thumbrest", handedness: "left" },
+            { action: "menu", componentId: "y-button" },
+        ]);
+
+        expect(actions.getComponentId("menu", motionController("left", "oculus-touch-v3", ["xr-standard-trigger", "y-button"]))).toBe("y-button");
+    });
+
+
+    it('notifies once when an action starts and once when it ends', () => {
+        const actions = new InputActionMap();
+        const controller = new FakeMotionController("right", "oculus-touch-v3", QuestComponentIds.right);
+        const trigger = controller.getComponent("xr-standard-trigger");
+        const events: boolean[] = [];
+        const press = (pressed: boolean, value: number) => {
+            trigger.pressed = pressed;
+            trigger.value = value;
+            trigger.onButtonStateChangedObservable.notifyObservers(trigger);
+        };
+
+        actions.getObservable("select").add(({ pressed }: InputActionEvent) => events.push(pressed));
+        actions.observeAction("select", {} as WebXRInputSource, controller as unknown as WebXRAbstractMotionController);
+
+        // A trigger resting on the finger is below the threshold of select
+        press(true, 0.5);
+        press(true, 0.9);
+        press(true, 1);
+        press(false, 0);
+        press(false, 0);
+
+        expect(events).toEqual([true, false]);
+    });
+});
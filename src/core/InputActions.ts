@@ -0,0 +1,171 @@
+import {
+    Observable,
+    WebXRAbstractMotionController,
+    WebXRInput,
+    WebXRInputSource,
+} from '@babylonjs/core';
+
+/**
+ * Represents what the user does with a controller, regardless of the button it is bound to.
+ * Possible values are "select" (placing and picking), "toggleDoor", "menu" (i.e. the log panel), and "grab".
+ */
+export type InputAction = "select" | "toggleDoor" | "menu" | "grab";
+
+/**
+ * Binds an action to a component of a motion controller, by its id in the WebXR input profiles,
+ * i.e. "xr-standard-trigger" or "a-button".
+ */
+export type InputBinding = {
+    action: InputAction;
+    componentId: string;
+    /**
+     * Only controllers in this hand, all of them if not defined.
+     */
+    handedness?: XRHandedness;
+    /**
+     * Only controllers with this input profile, i.e. "meta-quest-touch-plus", all of them if not defined.
+     */
+    profileId?: string;
+}
+
+/**
+ * An action being started or ended with a controller.
+ */
+export type InputActionEvent = {
+    action: InputAction;
+    controller: WebXRInputSource;
+    /**
+     * Whether the component was pressed, false when it is released again.
+     */
+    pressed: boolean;
+}
+
+/**
+ * The bindings used unless the experience is given others: the trigger selects, the squeeze grabs,
+ * the A/X button toggles the door and the B/Y button opens the menu. Hands select by pinching and grab by grasping.
+ */
+export const defaultInputBindings: InputBinding[] = [
+    { action: "select", componentId: "xr-standard-trigger" },
+    { action: "grab", componentId: "xr-standard-squeeze" },
+    { action: "grab", componentId: "grasp", profileId: "generic-hand-select-grasp" },
+    { action: "toggleDoor", componentId: "a-button", handedness: "right" },
+    { action: "toggleDoor", componentId: "x-button", handedness: "left" },
+    { action: "menu", componentId: "b-button", handedness: "right" },
+    { action: "menu", componentId: "y-button", handedness: "left" },
+];
+
+/**
+ * How far an analog component has to be pressed for an action, so a trigger resting on the finger does not select.
+ */
+const pressThresholds: Partial<Record<InputAction, number>> = {
+    select: 0.8,
+};
+
+const inputActions: InputAction[] = ["select", "toggleDoor", "menu", "grab"];
+
+
+/**
+ * Maps the components of the motion controllers to actions, so features react to "select" or "grab"
+ * instead of looking up components by their index, which differs between controller profiles and hands.
+ * The most specific binding of an action wins: one for the profile and the hand over one for the profile,
+ * over one for the hand, over one for all controllers. Bindings the controller has no component for are skipped.
+ * Bindings given to the experience replace the default bindings of their actions.
+ */
+export class InputActionMap {
+    _bindings: InputBinding[];
+    _observables: Record<InputAction, Observable<InputActionEvent>>;
+    _removeObservers: (() => void)[];
+
+
+    /**
+     * @param bindings The bindings, they replace the default bindings of the actions they bind.
+     */
+    constructor(bindings: InputBinding[] = []) {
+        this._bindings = [...bindings, ...defaultInputBindings.filter((binding) => !bindings.some(({ action }) => action === binding.action))];
+        this._observables = {
+            select: new Observable(),
+            toggleDoor: new Observable(),
+            menu: new Observable(),
+            grab: new Observable(),
+        };
+        this._removeObservers = [];
+    }
+
+
+    /**
+     * Observes the components of every controller that is added, once its motion controller is initialized.
+     * @param input The input of the XR experience.
+     */
+    attach(input: WebXRInput) {
+        const observer = input.onControllerAddedObservable.add((controller) => {
+            controller.onMotionControllerInitObservable.add((motionController) => {
+                inputActions.forEach((action) => this.observeAction(action, controller, motionController));
+            });
+        });
+
+        this._removeObservers.push(() => input.onControllerAddedObservable.remove(observer));
+    }
+
+
+    /**
+     * Returns the observable of an action, notified when a controller starts or ends it.
+     * Features add their observers with `observe`, so they are removed when the feature is disposed.
+     * @param action The action.
+     * @returns The observable.
+     */
+    getObservable(action: InputAction): Observable<InputActionEvent> {
+        return this._observables[action];
+    }
+
+
+    /**
+     * Returns the component of a motion controller an action is bound to.
+     * @param action The action.
+     * @param motionController The motion controller.
+     * @returns The id of the component, or null if the action is not bound to any of its components.
+     */
+    getComponentId(action: InputAction, motionController: WebXRAbstractMotionController): string | null {
+        const componentIds = motionController.getComponentIds();
+        const specificity = (binding: InputBinding) => (binding.profileId !== undefined ? 2 : 0) + (binding.handedness !== undefined ? 1 : 0);
+        const matches = this._bindings.filter((binding) => binding.action === action
+            && (binding.handedness === undefined || binding.handedness === motionController.handedness)
+            && (binding.profileId === undefined || binding.profileId === motionController.profileId)
+            && componentIds.includes(binding.componentId));
+
+        // Stable, so of equally specific bindings the first one wins
+        return matches.sort((a, b) => specificity(b) - specificity(a))[0]?.componentId ?? null;
+    }
+
+
+    /**
+     * Notifies the observers of an action whenever the component it is bound to is pressed or released.
+     * @param action The action.
+     * @param controller The controller.
+     * @param motionController The motion controller of the controller.
+     */
+    observeAction(action: InputAction, controller: WebXRInputSource, motionController: WebXRAbstractMotionController) {
+        const componentId = this.getComponentId(action, motionController);
+        const threshold = pressThresholds[action] ?? 0;
+        let pressed = false;
+
+        if (componentId === null) {
+            return;
+        }
+
+        motionController.getComponent(componentId).onButtonStateChangedObservable.add((component) => {
+            const isPressed = component.pressed && component.value >= threshold;
+
+            if (isPressed !== pressed) {
+                pressed = isPressed;
+                this._observables[action].notifyObservers({ action, controller, pressed });
+            }
+        });
+    }
+
+
+    dispose() {
+        this._removeObservers.forEach((removeObserver) => removeObserver());
+        this._removeObservers = [];
+        inputActions.forEach((action) => this._observables[action].clear());
+    }
+}
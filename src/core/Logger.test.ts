@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { errorMessage, Logger, LogLevel } from './Logger';
+
+
+describe('Logger', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+
+    it('keeps the errors while debug entries are logged', () => {
+        const logger = new Logger(LogLevel.Error, 10);
+
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        logger.error('planes', 'lost tracking');
+
+        for (let i = 0; i < 50; i++) {
+            logger.debug('planes', `plane ${i} updated`);
+        }
+
+        expect(logger.getEntries(LogLevel.Warn).map((entry) => entry.message)).toEqual(['lost tracking']);
+        expect(logger.getEntries()).toHaveLength(11);
+    });
+
+
+    it('returns the entries of all levels oldest first', () => {
+        const logger = new Logger(LogLevel.Error);
+        let time = 0;
+
+        vi.spyOn(performance, 'now').mockImplementation(() => time++);
+        logger.info('experience', 'first');
+        logger.debug('planes', 'second');
+        logger.info('hitTest', 'third');
+
+        expect(logger.getEntries().map((entry) => entry.message)).toEqual(['first', 'second', 'third']);
+        expect(logger.getEntries(LogLevel.Debug, 'hitTest').map((entry) => entry.message)).toEqual(['third']);
+    });
+
+
+    it('writes the entries at or above the console level to the console', () => {
+        const logger = new Logger(LogLevel.Warn);
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const info = vi.spyOn(console, 'info').mockImplementation(() => undefined);
+
+        logger.warn('anchors', 'emulated');
+        logger.info('anchors', 'added');
+
+        expect(warn).toHaveBeenCalledWith('[anchors] emulated');
+        expect(info).not.toHaveBeenCalled();
+    });
+
+
+    it('turns caught values into messages', () => {
+        expect(errorMessage(new Error('failed'))).toBe('failed');
+        expect(errorMessage('WebGL not supported')).toBe('WebGL not supported');
+    });
+});
@@ -0,0 +1,129 @@
+import { Observable } from '@babylonjs/core';
+
+export enum LogLevel {
+    Debug,
+    Info,
+    Warn,
+    Error,
+}
+
+export type LogEntry = {
+    /**
+     * The time of the entry in milliseconds, from `performance.now()`.
+     */
+    time: number;
+    level: LogLevel;
+    /**
+     * What the entry is about, usually the name of a feature module or "experience".
+     */
+    category: string;
+    message: string;
+    /**
+     * Additional values logged along with the message, i.e. an error or a picking info.
+     */
+    data: unknown[];
+}
+
+/**
+ * Collects log entries with a level and a category and keeps the most recent ones of each level,
+ * so they can be shown where the console is not visible, i.e. inside the headset.
+ * Each level has a buffer of its own, so the debug entries logged on every plane update don't push out the errors.
+ * Entries at or above the console level are also written to the console.
+ */
+export class Logger {
+    _consoleLevel: LogLevel;
+    _maxEntries: number;
+    // The kept entries by level, oldest first
+    _entries: Map<LogLevel, LogEntry[]>;
+    onEntryAddedObservable: Observable<LogEntry>;
+
+
+    /**
+     * @param consoleLevel The lowest level that is written to the console.
+     * @param maxEntries The number of entries that are kept per level.
+     */
+    constructor(consoleLevel = LogLevel.Warn, maxEntries = 100) {
+        this._consoleLevel = consoleLevel;
+        this._maxEntries = maxEntries;
+        this._entries = new Map();
+        this.onEntryAddedObservable = new Observable();
+    }
+
+
+    /**
+     * Adds an entry and writes it to the console if its level is high enough.
+     * @param level The level of the entry.
+     * @param category What the entry is about.
+     * @param message The message.
+     * @param data Additional values to log.
+     */
+    log(level: LogLevel, category: string, message: string, ...data: unknown[]) {
+        const entry: LogEntry = { time: performance.now(), level, category, message, data };
+
+        const entries = this._entries.get(level) ?? [];
+
+        entries.push(entry);
+
+        if (entries.length > this._maxEntries) {
+            entries.shift();
+        }
+        this._entries.set(level, entries);
+
+        if (level >= this._consoleLevel) {
+            const write = {
+                [LogLevel.Debug]: console.log,
+                [LogLevel.Info]: console.info,
+                [LogLevel.Warn]: console.warn,
+                [LogLevel.Error]: console.error,
+            }[level];
+
+            write(`[${category}] ${message}`, ...data);
+        }
+
+        this.onEntryAddedObservable.notifyObservers(entry);
+    }
+
+
+    debug(category: string, message: string, ...data: unknown[]) {
+        this.log(LogLevel.Debug, category, message, ...data);
+    }
+
+
+    info(category: string, message: string, ...data: unknown[]) {
+        this.log(LogLevel.Info, category, message, ...data);
+    }
+
+
+    warn(category: string, message: string, ...data: unknown[]) {
+        this.log(LogLevel.Warn, category, message, ...data);
+    }
+
+
+    error(category: string, message: string, ...data: unknown[]) {
+        this.log(LogLevel.Error, category, message, ...data);
+    }
+
+
+    /**
+     * Returns the kept entries, oldest first.
+     * @param minLevel The lowest level to return.
+     * @param category Only return entries of this category, if defined.
+     * @returns The entries.
+     */
+    getEntries(minLevel = LogLevel.Debug, category?: string): LogEntry[] {
+        return [...this._entries.values()]
+            .flat()
+            .filter((entry) => entry.level >= minLevel && (category === undefined || entry.category === category))
+            .sort((a, b) => a.time - b.time);
+    }
+}
+
+
+/**
+ * Turns a caught value into a message for a log entry.
+ * @param error The caught value.
+ * @returns The message.
+ */
+export function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+
+import { SeededRandom } from './SeededRandom';
+
+const take = (random: SeededRandom, count: number) => Array.from({ length: count }, () => random.next());
+
+
+describe('SeededRandom', () => {
+    it('returns the same numbers for the same seed', () => {
+        const numbers = take(new SeededRandom(42), 5);
+
+        expect(take(new SeededRandom(42), 5)).toEqual(numbers);
+        expect(take(new SeededRandom(43), 5)).not.toEqual(numbers);
+        expect(numbers.every((number) => number >= 0 && number < 1)).toBe(true);
+    });
+
+
+    it('starts over when it is reset', () => {
+        const random = new SeededRandom(1);
+        const numbers = take(random, 3);
+
+        random.reset();
+
+        expect(take(random, 3)).toEqual(numbers);
+    });
+
+
+    it('forks generators that do not depend on the numbers taken before', () => {
+        const random = new SeededRandom(7);
+        const forked = take(random.fork(3), 3);
+
+        take(random, 10);
+
+        expect(take(random.fork(3), 3)).toEqual(forked);
+        expect(take(random.fork(4), 3)).not.toEqual(forked);
+    });
+
+
+    it('picks the items', () => {
+        const random = new SeededRandom(5);
+        const items = ['a', 'b', 'c'];
+
+        expect(take(random, 20).map(() => random.pick(items)).every((item) => items.includes(item))).toBe(true);
+    });
+});
@@ -0,0 +1,59 @@
+/**
+ * A pseudo random number generator that returns the same numbers for the same seed (mulberry32),
+ * so the random colours of a session are the same when it is replayed.
+ */
+export class SeededRandom {
+    _seed: number;
+    _state: number;
+
+
+    constructor(seed: number) {
+        this._seed = seed >>> 0;
+        this._state = this._seed;
+    }
+
+
+    /**
+     * Returns the next number.
+     * @returns A number between 0 (inclusive) and 1 (exclusive).
+     */
+    next(): number {
+        this._state = (this._state + 0x6d2b79f5) >>> 0;
+
+        let t = this._state;
+
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+
+    /**
+     * Picks one of the items.
+     * @param items The items, at least one.
+     * @returns The item.
+     */
+    pick<T>(items: T[]): T {
+        return items[Math.floor(this.next() * items.length)];
+    }
+
+
+    /**
+     * Creates a generator of its own for a key, i.e. the id of a plane, which returns the same numbers
+     * no matter how many numbers were taken from this generator before.
+     * @param key The key.
+     * @returns The generator.
+     */
+    fork(key: number): SeededRandom {
+        return new SeededRandom(Math.imul(this._seed ^ key, 0x9e3779b1) ^ key);
+    }
+
+
+    /**
+     * Starts over with the seed, i.e. when a session starts.
+     */
+    reset() {
+        this._state = this._seed;
+    }
+}
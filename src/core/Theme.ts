@@ -0,0 +1,75 @@
+import type { PlaneClass } from '../features/PlaneClassifier';
+
+/**
+ * The colours of the scene, as hex strings like "#4caf50".
+ */
+export type Theme = {
+    /**
+     * The colour of each plane class in the "classification" and "wireframe" visualizations.
+     */
+    planeColors: Record<PlaneClass, string>;
+    /**
+     * The colours the tint of a plane is picked from in the "random" visualization.
+     */
+    planePalette: string[];
+    /**
+     * The colours of the virtual objects, i.e. the box. The first one is the initial colour,
+     * the others are picked from when the colour is changed.
+     */
+    objectColors: string[];
+    /**
+     * The colour of the hit test reticle on a surface objects can be placed on.
+     */
+    markerColor: string;
+    /**
+     * The colour of the hit test reticle on a surface the hit test filter rejects.
+     */
+    invalidMarkerColor: string;
+    /**
+     * The colours of the virtual environment of sessions that don't show the real world.
+     */
+    groundColor: string;
+    gridColor: string;
+    skyColor: string;
+}
+
+/**
+ * Represents the themes that can be configured.
+ * Possible values are "default" and "high-contrast" (saturated colours that stand out in a bright room).
+ */
+export type ThemeName = "default" | "high-contrast";
+
+export const themes: Record<ThemeName, Theme> = {
+    "default": {
+        planeColors: {
+            floor: "#4caf50",
+            ceiling: "#9e9e9e",
+            wall: "#2196f3",
+            table: "#ff9800",
+            other: "#9c27b0",
+        },
+        planePalette: ["#e57373", "#f06292", "#ba68c8", "#7986cb", "#4fc3f7", "#4db6ac", "#aed581", "#fff176", "#ffb74d", "#a1887f"],
+        objectColors: ["#3f51b5", "#e91e63", "#009688", "#ffc107", "#673ab7", "#8bc34a", "#ff5722", "#03a9f4"],
+        markerColor: "#ffffff",
+        invalidMarkerColor: "#f44336",
+        groundColor: "#e6e6e6",
+        gridColor: "#666666",
+        skyColor: "#bfd9f2",
+    },
+    "high-contrast": {
+        planeColors: {
+            floor: "#00e676",
+            ceiling: "#ffffff",
+            wall: "#2979ff",
+            table: "#ffea00",
+            other: "#ff1744",
+        },
+        planePalette: ["#ff1744", "#f50057", "#d500f9", "#3d5afe", "#00b0ff", "#1de9b6", "#76ff03", "#ffea00", "#ff9100"],
+        objectColors: ["#ff1744", "#00e676", "#2979ff", "#ffea00", "#d500f9", "#00e5ff"],
+        markerColor: "#ffea00",
+        invalidMarkerColor: "#ff1744",
+        groundColor: "#ffffff",
+        gridColor: "#000000",
+        skyColor: "#000000",
+    },
+};
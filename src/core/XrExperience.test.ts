@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { FakeReferenceSpace } from '../harness/FakeXrSession';
+import { XrTestHarness } from '../harness/XrTestHarness';
+
+
+describe('XrExperience', () => {
+    let harness: XrTestHarness | null = null;
+
+    afterEach(async () => {
+        await harness?.dispose();
+        harness = null;
+    });
+
+
+    it('picks the first preferred session mode the device supports', async () => {
+        harness = await XrTestHarness.create({ sessionModes: ["immersive-ar", "immersive-vr", "inline"], supportedSessionModes: ["immersive-vr", "inline"] });
+
+        expect(harness.experience._sessionMode).toBe("immersive-vr");
+        expect(harness.experience._desktopPreview).toBe(false);
+    });
+
+
+    it('requests only the viewer reference space in an inline session', async () => {
+        harness = await XrTestHarness.create({ supportedSessionModes: ["inline"] });
+
+        expect(harness.experience._sessionMode).toBe("inline");
+        expect(harness.experience._referenceSpaceTypes).toEqual(["viewer"]);
+    });
+
+
+    it('shows the desktop preview without a supported session mode', async () => {
+        harness = await XrTestHarness.create({ sessionModes: ["immersive-ar"], supportedSessionModes: ["inline"] });
+
+        expect(harness.experience._desktopPreview).toBe(true);
+        expect(harness.experience._xr).toBeNull();
+    });
+
+
+    it('walks down the reference space types until one is granted', async () => {
+        harness = await XrTestHarness.create({ supportedReferenceSpaceTypes: ["unbounded", "local"] });
+        await harness.session.startSession();
+
+        const referenceSpace = harness.session.sessionManager.referenceSpace!;
+
+        expect(harness.experience._referenceSpaceType).toBe("unbounded");
+        expect(harness.experience._rejectedReferenceSpaceTypes).toEqual(["local-floor", "bounded-floor"]);
+        expect(referenceSpace.type).toBe("unbounded");
+        expect(referenceSpace.offset.y).toBe(0);
+    });
+
+
+    it('offsets a reference space that is not floor-relative by the floor offset', async () => {
+        harness = await XrTestHarness.create({ supportedReferenceSpaceTypes: ["local"] });
+        await harness.session.startSession();
+
+        expect(harness.experience._referenceSpaceType).toBe("local");
+        expect(harness.experience.isFloorRelative()).toBe(false);
+        expect((harness.session.sessionManager.referenceSpace as FakeReferenceSpace).offset.y).toBeCloseTo(-1.6);
+    });
+
+
+    it('fails when none of the reference space types is granted', async () => {
+        harness = await XrTestHarness.create({ referenceSpaceTypes: ["bounded-floor", "unbounded"], supportedReferenceSpaceTypes: ["local-floor"] });
+
+        await expect(harness.session.startSession()).rejects.toMatch(/none of the reference space types is supported/);
+        expect(harness.experience._rejectedReferenceSpaceTypes).toEqual(["bounded-floor", "unbounded"]);
+    });
+});
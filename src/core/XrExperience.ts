@@ -0,0 +1,665 @@
+import {
+    Engine,
+    Scene,
+    Vector3,
+    WebXRDefaultExperience,
+    ShadowGenerator,
+    DirectionalLight,
+    IShadowLight,
+    HemisphericLight,
+    WebXRFeaturesManager,
+    Nullable,
+    WebXRSessionManager,
+    Mesh,
+    MeshBuilder,
+    UniversalCamera,
+    Color3,
+    Color4,
+    Observable,
+    WebXRState,
+} from '@babylonjs/core';
+
+import { GridMaterial } from '@babylonjs/materials/grid';
+
+import { classArguments, LightArguments, MeasurementUnits, PlaneVisualization, ReferenceSpaceType, SessionModes, ShadowQuality, XrCapability } from './types';
+import { XrFeature } from './XrFeature';
+import { InputActionMap } from './InputActions';
+import { SeededRandom } from './SeededRandom';
+import { Theme, themes } from './Theme';
+import { errorMessage, Logger, LogLevel } from './Logger';
+
+export class XrExperience {
+    _canvas: HTMLCanvasElement | null;
+    _engine: Engine;
+    _scene: Scene;
+    _debug: boolean;
+    _logger: Logger;
+    _xr: WebXRDefaultExperience | null;
+    _sessionMode: SessionModes;
+    _sessionModes: SessionModes[];
+    _supportedSessionModes: SessionModes[] | null;
+    _desktopPreview: boolean;
+    _ground: Mesh | null;
+    _referenceSpaceType: ReferenceSpaceType;
+    _referenceSpaceTypes: ReferenceSpaceType[];
+    _rejectedReferenceSpaceTypes: ReferenceSpaceType[];
+    _floorOffset: number;
+    _optionalFeatures: boolean;
+    _fm: WebXRFeaturesManager | null;
+    _shadowGenerator: Nullable<ShadowGenerator>;
+    _shadowQuality: ShadowQuality;
+    _planeVisualization: PlaneVisualization;
+    _persistPlanes: boolean;
+    _measurementUnits: MeasurementUnits;
+    _theme: Theme;
+    _random: SeededRandom;
+    _inputActions: InputActionMap;
+    _modelUrl: string;
+    _lights: LightArguments;
+    _features: XrFeature[];
+    _capabilities: XrCapability[];
+    onCapabilitiesChangedObservable: Observable<XrCapability[]>;
+    _capabilityReport: HTMLElement | null;
+    _resizeListener: () => void;
+    _removeSessionObservers: (() => void)[];
+    _xrFactory: ((scene: Scene) => Promise<WebXRDefaultExperience>) | null;
+    _ready: Promise<void>;
+
+
+    /**
+     * Constructs a new instance of the class.
+     * @throws {string} Throws an error if WebGL is not supported.
+     * @throws {Error} Throws an error if an enabled feature module is not part of the features.
+     */
+    constructor(args: classArguments) {
+        // Before the engine is created, so an unknown feature doesn't leave an engine behind
+        this._features = this.selectFeatures(args.features ?? [], args.enabledFeatures ?? null);
+
+        if (args.engine) {
+            this._canvas = null;
+            this._engine = args.engine;
+        } else {
+            if (!Engine.isSupported()) {
+                throw 'WebGL not supported';
+            }
+
+            this._canvas = document.getElementById('canvas') as HTMLCanvasElement;
+            this._engine = new Engine(this._canvas, true);
+        }
+
+        this._scene = new Scene(this._engine);
+        this._debug = args.debug;
+        this._logger = new Logger(this._debug ? LogLevel.Debug : LogLevel.Warn);
+        this._sessionMode = "immersive-ar";
+        this._sessionModes = args.sessionModes ?? ["immersive-ar", "immersive-vr", "inline"];
+        this._supportedSessionModes = args.supportedSessionModes ?? null;
+        this._desktopPreview = false;
+        this._ground = null;
+        // Stored planes are only restored in a bounded space, see `getPersistenceKey` in PlanePersistence
+        this._referenceSpaceTypes = args.referenceSpaceTypes ?? (args.persistPlanes
+            ? ["bounded-floor", "local-floor", "unbounded", "local", "viewer"]
+            : ["local-floor", "bounded-floor", "unbounded", "local", "viewer"]);
+        this._referenceSpaceType = this._referenceSpaceTypes[0];
+        this._rejectedReferenceSpaceTypes = [];
+        this._floorOffset = args.floorOffset ?? 1.6;
+        this._optionalFeatures = true;
+        this._xr = null;
+        this._fm = null;
+        this._shadowGenerator = null;
+        this._shadowQuality = args.shadowQuality ?? "medium";
+        this._planeVisualization = args.planeVisualization ?? "random";
+        this._persistPlanes = args.persistPlanes ?? false;
+        this._measurementUnits = args.measurementUnits ?? "metric";
+        this._theme = themes[args.theme ?? "default"];
+        this._random = new SeededRandom(args.seed ?? 1);
+        this._inputActions = new InputActionMap(args.inputBindings);
+        this._modelUrl = args.modelUrl ?? "/models/door.glb";
+        this._lights = args.lights ?? {};
+        this._capabilities = [];
+        this.onCapabilitiesChangedObservable = new Observable();
+        this._capabilityReport = null;
+        this._resizeListener = () => {
+            this._engine.resize();
+        };
+        this._removeSessionObservers = [];
+        this._xrFactory = args.xrFactory ?? null;
+
+        this._features.forEach((feature) => feature.attach(this));
+
+        this._ready = this.createXrExperience().then(async () => {
+            this.addFeaturesToSession();
+            await this.createScene();
+            this.observeSession();
+
+            this._engine.runRenderLoop(() => {
+                this._scene.render();
+            });
+
+            if (this._canvas !== null) {
+                window.addEventListener('resize', this._resizeListener);
+            }
+        });
+
+        this._ready.catch((error) => {
+            this._logger.error("experience", `Unable to start the experience: ${errorMessage(error)}`, error);
+        });
+    }
+
+
+    /**
+     * Leaves out the feature modules that are not enabled.
+     * @param features The feature modules of the part.
+     * @param enabledFeatures The names of the feature modules to enable, or null to enable all of them.
+     * @returns The enabled feature modules.
+     * @throws {Error} Throws an error if a name does not match any of the feature modules.
+     */
+    selectFeatures(features: XrFeature[], enabledFeatures: string[] | null): XrFeature[] {
+        if (enabledFeatures === null) {
+            return features;
+        }
+
+        const names = features.map((feature) => feature.name);
+        const unknown = enabledFeatures.filter((name) => !names.includes(name));
+
+        if (unknown.length) {
+            throw new Error(`Unknown feature ${unknown.map((name) => `"${name}"`).join(', ')}, this part has ${names.join(', ')}`);
+        }
+
+        return features.filter((feature) => enabledFeatures.includes(feature.name));
+    }
+
+
+    /**
+     *  Enables the WebXR default experience helper
+        This enables default XR features such as as session, a camera, xr input, default UI to enter XR and scene transitions.
+        The session mode is negotiated first: AR with floor tracking is preferred, VR and inline sessions
+        get a virtual environment, without any WebXR support the scene is shown as a desktop preview.
+        All optional features are enabled to allow for the most immersive experience..
+     *  @returns A promise that resolves when the XR experience is created.
+     */
+    async createXrExperience(): Promise<void> {
+        const sessionMode = await this.negotiateSessionMode();
+
+        if (sessionMode === null) {
+            this._sessionMode = "inline";
+            this._desktopPreview = true;
+            this.createVirtualEnvironment();
+            this.createDesktopCamera();
+            return;
+        }
+
+        this._sessionMode = sessionMode;
+
+        if (sessionMode === "inline") {
+            this._referenceSpaceTypes = ["viewer"];
+            this._referenceSpaceType = "viewer";
+        }
+
+        if (sessionMode !== "immersive-ar") {
+            this.createVirtualEnvironment();
+        }
+
+        if (this._xrFactory !== null) {
+            this._xr = await this._xrFactory(this._scene);
+            this.installReferenceSpaceFallback(this._xr.baseExperience.sessionManager);
+            return;
+        }
+
+        this._xr = await WebXRDefaultExperience.CreateAsync(this._scene, {
+            uiOptions: {
+                sessionMode: this._sessionMode,
+                referenceSpaceType: this._referenceSpaceType,
+                onError: (error) => {
+                    this._logger.error("experience", `Unable to enter XR: ${errorMessage(error)}`, error);
+                    alert(error);
+                }
+            },
+            floorMeshes: this._ground ? [this._ground] : undefined,
+            // the reference space types further down the chain have to be requested as well to be granted
+            optionalFeatures: this._optionalFeatures ? [
+                "hit-test", "anchors", "plane-detection", "mesh-detection", "hand-tracking",
+                ...this._referenceSpaceTypes.filter((type) => type !== "local" && type !== "viewer"),
+            ] : false,
+        });
+
+        if (!this._xr.baseExperience) {
+            throw new Error('Unable to create XR experience');
+        }
+
+        this.installReferenceSpaceFallback(this._xr.baseExperience.sessionManager);
+    }
+
+
+    /**
+     * Replaces the reference space request of the session manager, which falls back to "viewer" right away,
+     * with one that walks down the preferred reference space types.
+     * @param sessionManager The session manager of the XR experience.
+     */
+    installReferenceSpaceFallback(sessionManager: WebXRSessionManager) {
+        sessionManager.setReferenceSpaceTypeAsync = () => this.requestReferenceSpace(sessionManager);
+    }
+
+
+    /**
+     * Requests the first of the preferred reference space types the session grants.
+     * Reference spaces that are not floor-relative are offset by the estimated floor height,
+     * so y = 0 is on the floor no matter which type was granted.
+     * @param sessionManager The session manager of the XR experience.
+     * @returns A promise that resolves with the reference space.
+     * @throws {string} Throws an error if none of the reference space types is granted.
+     */
+    async requestReferenceSpace(sessionManager: WebXRSessionManager): Promise<XRReferenceSpace> {
+        this._rejectedReferenceSpaceTypes = [];
+
+        for (const referenceSpaceType of this._referenceSpaceTypes) {
+            let referenceSpace: XRReferenceSpace;
+
+            try {
+                referenceSpace = await sessionManager.session.requestReferenceSpace(referenceSpaceType);
+            } catch (error) {
+                this._logger.info("experience", `reference space ${referenceSpaceType} rejected`, error);
+                this._rejectedReferenceSpaceTypes.push(referenceSpaceType);
+                continue;
+            }
+
+            this._referenceSpaceType = referenceSpaceType;
+
+            if (!this.isFloorRelative()) {
+                referenceSpace = referenceSpace.getOffsetReferenceSpace(new XRRigidTransform({ x: 0, y: -this._floorOffset, z: 0 }));
+            }
+
+            sessionManager.viewerReferenceSpace = await sessionManager.session.requestReferenceSpace("viewer");
+            sessionManager.referenceSpace = sessionManager.baseReferenceSpace = referenceSpace;
+
+            this._logger.info("experience", `reference space ${referenceSpaceType}` + (this.isFloorRelative() ? "" : `, offset by ${this._floorOffset}m`));
+            this.onCapabilitiesChangedObservable.notifyObservers(this._capabilities);
+            this.notifyFeatures((feature) => feature.onReferenceSpaceGranted(referenceSpaceType));
+
+            return referenceSpace;
+        }
+
+        throw 'XR initialization failed: none of the reference space types is supported';
+    }
+
+
+    /**
+     * Whether the origin of the granted reference space is on the floor.
+     * If not, the floor height is only estimated by `floorOffset`.
+     */
+    isFloorRelative(): boolean {
+        return ["local-floor", "bounded-floor", "unbounded"].includes(this._referenceSpaceType);
+    }
+
+
+    /**
+     * Picks the first of the preferred session modes the device supports.
+     * @returns A promise that resolves with the session mode, or null if none is supported.
+     */
+    async negotiateSessionMode(): Promise<SessionModes | null> {
+        for (const sessionMode of this._sessionModes) {
+            if (await this.isSessionModeSupported(sessionMode)) {
+                this._logger.info("experience", `session mode ${sessionMode}`);
+                return sessionMode;
+            }
+            this._logger.debug("experience", `session mode ${sessionMode} not supported`);
+        }
+
+        return null;
+    }
+
+
+    /**
+     * Checks whether the device supports a session mode.
+     * @param sessionMode The session mode.
+     * @returns A promise that resolves with true if the session mode is supported.
+     */
+    async isSessionModeSupported(sessionMode: SessionModes): Promise<boolean> {
+        if (this._supportedSessionModes !== null) {
+            return this._supportedSessionModes.includes(sessionMode);
+        }
+
+        try {
+            return await WebXRSessionManager.IsSessionSupportedAsync(sessionMode);
+        } catch (error) {
+            return false;
+        }
+    }
+
+
+    /**
+     * Whether the session shows the real world, planes, hit tests and anchors are only available then.
+     */
+    isAugmentedReality(): boolean {
+        return this._sessionMode === "immersive-ar" && !this._desktopPreview;
+    }
+
+
+    /**
+     * Creates a virtual room for sessions that don't show the real world: a grid floor, which is used
+     * for teleportation in VR, and a sky colour.
+     */
+    createVirtualEnvironment() {
+        const material = new GridMaterial("groundMaterial", this._scene);
+        material.mainColor = Color3.FromHexString(this._theme.groundColor);
+        material.lineColor = Color3.FromHexString(this._theme.gridColor);
+        material.gridRatio = 0.5;
+
+        this._ground = MeshBuilder.CreateGround("virtualGround", { width: 20, height: 20 }, this._scene);
+        this._ground.material = material;
+        this._ground.receiveShadows = true;
+
+        this._scene.clearColor = Color4.FromColor3(Color3.FromHexString(this._theme.skyColor));
+    }
+
+
+    /**
+     * Creates a camera at eye height which is controlled with mouse and keyboard.
+     */
+    createDesktopCamera() {
+        const camera = new UniversalCamera("desktopCamera", new Vector3(0, 1.6, -2), this._scene);
+        camera.setTarget(new Vector3(0, 1, 1));
+        camera.minZ = 0.01;
+
+        if (this._canvas !== null) {
+            camera.attachControl(true);
+        }
+    }
+
+
+    /**
+     * Adds the WebXR features each feature module depends on to the session.
+     * A module failing to enable its features does not prevent the others from doing so.
+     */
+    addFeaturesToSession() {
+        if (this._xr === null) {
+            return;
+        }
+        // Get the features manager from the default xr experience
+        this._fm = this._xr.baseExperience.featuresManager;
+
+        for (const feature of this._features) {
+            if (!feature.sessionModes.includes(this._sessionMode)) {
+                this._logger.info(feature.name, `not available in ${this._sessionMode}`);
+                this.reportCapability({
+                    feature: feature.name,
+                    xrFeature: null,
+                    version: null,
+                    enabled: false,
+                    reason: `not available in ${this._sessionMode}`,
+                });
+                continue;
+            }
+            try {
+                feature.addFeaturesToSession(this._fm);
+            } catch (error) {
+                this._logger.error(feature.name, `Unable to add the features to the session: ${errorMessage(error)}`, error);
+                this.reportCapability({
+                    feature: feature.name,
+                    xrFeature: null,
+                    version: null,
+                    enabled: false,
+                    reason: errorMessage(error),
+                });
+            }
+        }
+    }
+
+
+    /**
+     * Lets the feature modules know whenever the user enters or leaves XR, so they can reset their state.
+     */
+    observeSession() {
+        if (this._xr === null) {
+            return;
+        }
+
+        const sessionManager = this._xr.baseExperience.sessionManager;
+        const sessionStarted = sessionManager.onXRSessionInit.add(() => {
+            this._logger.info("experience", "session started");
+            this._random.reset();
+            this.notifyFeatures((feature) => feature.onSessionStarted());
+        });
+        const sessionEnded = sessionManager.onXRSessionEnded.add(() => {
+            this._logger.info("experience", "session ended");
+            this.notifyFeatures((feature) => feature.onSessionEnded());
+        });
+
+        this._removeSessionObservers = [
+            () => sessionManager.onXRSessionInit.remove(sessionStarted),
+            () => sessionManager.onXRSessionEnded.remove(sessionEnded),
+        ];
+    }
+
+
+    /**
+     * Calls a hook of every feature module. A module failing does not prevent the others from being notified.
+     * @param hook Calls the hook of a feature module.
+     */
+    notifyFeatures(hook: (feature: XrFeature) => void) {
+        for (const feature of this._features) {
+            try {
+                hook(feature);
+            } catch (error) {
+                this._logger.error(feature.name, errorMessage(error), error);
+            }
+        }
+    }
+
+
+    /**
+     * Adds the outcome of enabling a WebXR feature to the capability report,
+     * replacing an earlier outcome for the same feature module and WebXR feature.
+     * @param capability The outcome.
+     */
+    reportCapability(capability: XrCapability) {
+        const index = this._capabilities.findIndex((c) => c.feature === capability.feature && c.xrFeature === capability.xrFeature);
+
+        if (index === -1) {
+            this._capabilities.push(capability);
+        } else {
+            this._capabilities[index] = capability;
+        }
+
+        this._logger.debug(capability.feature, capability.enabled ?
+            `${capability.xrFeature} v${capability.version} enabled` : `${capability.xrFeature ?? "module"} not enabled: ${capability.reason}`);
+        this.onCapabilitiesChangedObservable.notifyObservers(this._capabilities);
+    }
+
+
+    /**
+     * Returns which WebXR features were enabled, in which version, and why the others were not.
+     * @returns The capability report.
+     */
+    getCapabilities(): XrCapability[] {
+        return [...this._capabilities];
+    }
+
+
+    /**
+     * Whether a WebXR feature was enabled by any feature module.
+     * @param xrFeature The name of the WebXR feature.
+     */
+    hasCapability(xrFeature: string): boolean {
+        return this._capabilities.some((capability) => capability.xrFeature === xrFeature && capability.enabled);
+    }
+
+
+    /**
+     * Shows the capability report on top of the canvas and keeps it up to date.
+     */
+    showCapabilityReport() {
+        if (this._canvas === null) {
+            return;
+        }
+
+        const report = document.createElement('pre');
+        report.id = 'capabilities';
+        report.style.cssText = 'position: absolute; top: 0; left: 50%; transform: translateX(-50%); margin: 0; padding: 8px;' +
+            'background: rgba(0, 0, 0, 0.6); color: #fff; font: 12px monospace; pointer-events: none;';
+
+        const update = (capabilities: XrCapability[]) => {
+            report.textContent = `${this._sessionMode}, ${this._referenceSpaceType}\n` + capabilities.map((capability) => {
+                const name = `${capability.feature}${capability.xrFeature ? ` ${capability.xrFeature}` : ''}`;
+                return capability.enabled ? `✔ ${name} v${capability.version}` : `✘ ${name}: ${capability.reason}`;
+            }).join('\n');
+        };
+
+        update(this._capabilities);
+        this.onCapabilitiesChangedObservable.add(update);
+        document.body.appendChild(report);
+
+        this._capabilityReport = report;
+    }
+
+
+    /**
+     * Creates the scene for the XR experience.
+     * This function is called once when the scene is first created.
+     * @returns A promise that resolves when the scene is created.
+     */
+    async createScene(): Promise<Scene> {
+
+        this.createLightsAndShadows();
+
+        if (this._xr !== null) {
+            this._inputActions.attach(this._xr.input);
+        }
+
+        for (const feature of this._features) {
+            await feature.createScene();
+        }
+
+        if (this._debug) {
+            // Loaded on demand, so the inspector and its UI dependencies are only loaded in debug runs and not when running headless
+            const { Inspector } = await import('@babylonjs/inspector');
+
+            Inspector.Show(this._scene, {});
+            this.showCapabilityReport();
+        }
+
+        return this._scene;
+    }
+
+
+    /**
+     * Waits until the experience is created, disposes it if its creation fails, so its engine doesn't keep running.
+     * @returns A promise that resolves with the experience.
+     * @throws Rejects with the error of the creation once the experience is disposed.
+     */
+    async whenReady(): Promise<XrExperience> {
+        try {
+            await this._ready;
+        } catch (error) {
+            await this.dispose();
+            throw error;
+        }
+        return this;
+    }
+
+
+    /**
+     * Tears the experience down, so another one can be started on the same page:
+     * removes the observers of the feature modules, leaves the XR session
+     * and disposes the XR experience, the scene and the engine,
+     * and removes the inspector, the capability report and the resize listener.
+     * @returns A promise that resolves when the experience is disposed.
+     */
+    async dispose(): Promise<void> {
+        // Let the creation finish first, otherwise it would continue on a disposed scene
+        await this._ready.catch(() => undefined);
+
+        this._removeSessionObservers.forEach((removeObserver) => removeObserver());
+        this._removeSessionObservers = [];
+        this.notifyFeatures((feature) => feature.dispose());
+        this._inputActions.dispose();
+
+        if (this._xr !== null) {
+            if (this._xr.baseExperience.state === WebXRState.IN_XR) {
+                await this._xr.baseExperience.exitXRAsync();
+            }
+            this._xr.dispose();
+            this._xr = null;
+        }
+
+        if (this._debug) {
+            const { Inspector } = await import('@babylonjs/inspector');
+
+            Inspector.Hide();
+        }
+
+        this._capabilityReport?.remove();
+        this.onCapabilitiesChangedObservable.clear();
+
+        if (this._canvas !== null) {
+            window.removeEventListener('resize', this._resizeListener);
+        }
+
+        this._engine.stopRenderLoop();
+        this._scene.dispose();
+        this._engine.dispose();
+    }
+
+
+    /**
+     * Returns the feature module of the given type, if the experience is composed of one.
+     * @param type The class of the feature module.
+     * @returns The feature module or null.
+     */
+    getFeature<T extends XrFeature>(type: abstract new (...args: never[]) => T): T | null {
+        const feature = this._features.find((feature) => feature instanceof type);
+
+        return (feature as T) ?? null;
+    }
+
+
+    /**
+     * Creates a shadow generator for the scene, unless shadows are turned off.
+     * ! shadowGenerator can only be created with a directional light
+     * @returns A shadow generator.
+     */
+    createLightsAndShadows() {
+        const lights = this.createLights();
+
+        if (this._shadowQuality === "off") {
+            return;
+        }
+
+        const settings = {
+            low: { mapSize: 512, blurKernel: 0 },
+            medium: { mapSize: 1024, blurKernel: 32 },
+            high: { mapSize: 2048, blurKernel: 64 },
+        }[this._shadowQuality];
+
+        const shadowGenerator = new ShadowGenerator(settings.mapSize, lights as IShadowLight);
+
+        if (settings.blurKernel > 0) {
+            shadowGenerator.useBlurExponentialShadowMap = true;
+            shadowGenerator.blurKernel = settings.blurKernel;
+        } else {
+            shadowGenerator.useExponentialShadowMap = true;
+        }
+
+        this._shadowGenerator = shadowGenerator;
+    }
+
+
+    /**
+     * Creates the lights of the scene, as set by the `lights` argument.
+     * @returns A directional light.
+     */
+    createLights() {
+        const lights = this._lights;
+
+        const directionalLight = new DirectionalLight("directionalLight", lights.direction?.clone() ?? new Vector3(0, 0, 10), this._scene);
+        directionalLight.intensity = lights.intensity ?? 0.3;
+
+        if (lights.position) {
+            directionalLight.position = lights.position.clone();
+        }
+
+        const hemiLight = new HemisphericLight("hemisphericLight", lights.hemisphericDirection?.clone() ?? new Vector3(0, 1, 0), this._scene);
+        hemiLight.intensity = lights.hemisphericIntensity ?? 0.7;
+
+        return directionalLight;
+    }
+}
@@ -0,0 +1,191 @@
+import { EventState, IWebXRFeature, Observable, WebXRFeaturesManager, WebXRSessionManager } from '@babylonjs/core';
+
+import type { XrExperience } from './XrExperience';
+import { errorMessage } from './Logger';
+import type { ReferenceSpaceType, SessionModes } from './types';
+
+/**
+ * Base class for all feature modules an article part is composed of.
+ * The experience attaches itself to every feature before any hook is called,
+ * then calls `addFeaturesToSession` once the XR experience is created and
+ * `createScene` once the scene is created, in the order the features were passed.
+ * `addFeaturesToSession` is skipped if the negotiated session mode is not one of `sessionModes`,
+ * `createScene` is always called so the module can emulate what the session lacks.
+ * `onSessionStarted` and `onSessionEnded` are called whenever the user enters or leaves XR,
+ * `onReferenceSpaceGranted` once the reference space of the session is known,
+ * `dispose` when the experience is disposed.
+ */
+export abstract class XrFeature {
+    abstract readonly name: string;
+    readonly sessionModes: SessionModes[] = ["immersive-ar", "immersive-vr", "inline"];
+    _experience!: XrExperience;
+    _removeObservers: (() => void)[] = [];
+
+
+    /**
+     * Attaches the feature to the experience it is part of.
+     * @param experience The experience the feature belongs to.
+     */
+    attach(experience: XrExperience) {
+        this._experience = experience;
+    }
+
+
+    /**
+     * Enables the WebXR features this module depends on.
+     * @param _fm The features manager of the default xr experience.
+     */
+    addFeaturesToSession(_fm: WebXRFeaturesManager): void {
+        return;
+    }
+
+
+    /**
+     * Enables a WebXR feature and reports the outcome to the capability report of the experience.
+     * A feature the runtime does not support does not throw, the module is expected to fall back instead.
+     * An optional feature is returned even if the runtime lacks it, the session then starts without it.
+     * Whether the session has it is only known once it started, the report is updated then, see `isXrFeatureEnabled`.
+     * @param fm The features manager of the default xr experience.
+     * @param xrFeature The name of the WebXR feature.
+     * @param version The version of the WebXR feature.
+     * @param options The options of the WebXR feature.
+     * @param required Whether the session requires the feature, otherwise it starts without it on a runtime that lacks it.
+     * @returns The WebXR feature, or null if it could not be enabled.
+     */
+    enableXrFeature<T>(fm: WebXRFeaturesManager, xrFeature: string, version: number | "latest" | "stable" = "latest", options: object = {}, required = true): T | null {
+        const loadedVersion = typeof version === "number" ? version :
+            version === "stable" ? WebXRFeaturesManager.GetStableVersionOfFeature(xrFeature) : WebXRFeaturesManager.GetLatestVersionOfFeature(xrFeature);
+
+        try {
+            const enabledFeature = fm.enableFeature(xrFeature, version, options, true, required);
+
+            this._experience.reportCapability({
+                feature: this.name,
+                xrFeature: xrFeature,
+                version: loadedVersion,
+                enabled: true,
+            });
+
+            if (!required && this._experience._xr !== null) {
+                const sessionManager = this._experience._xr.baseExperience.sessionManager;
+
+                // First, so the report is updated before the modules are told the session started
+                this.observe(sessionManager.onXRSessionInit, () => {
+                    this.reportGrantedXrFeature(sessionManager, enabledFeature, xrFeature, loadedVersion);
+                }, true);
+            }
+
+            return enabledFeature as T;
+        } catch (error) {
+            this._experience._logger.warn(this.name, `Unable to enable ${xrFeature}: ${errorMessage(error)}`);
+            this._experience.reportCapability({
+                feature: this.name,
+                xrFeature: xrFeature,
+                version: null,
+                enabled: false,
+                reason: errorMessage(error),
+            });
+
+            return null;
+        }
+    }
+
+
+    /**
+     * Reports whether the session that just started has an optional WebXR feature.
+     * Runtimes that don't list the features of the session are trusted with the features they are compatible with.
+     * @param sessionManager The session manager of the XR experience.
+     * @param enabledFeature The WebXR feature.
+     * @param xrFeature The name of the WebXR feature.
+     * @param version The version of the WebXR feature.
+     */
+    reportGrantedXrFeature(sessionManager: WebXRSessionManager, enabledFeature: IWebXRFeature, xrFeature: string, version: number) {
+        const enabledFeatures = sessionManager.enabledFeatures;
+        const nativeName = enabledFeature.xrNativeFeatureName;
+        const granted = enabledFeature.isCompatible() && (enabledFeatures === null || nativeName === undefined || enabledFeatures.includes(nativeName));
+
+        if (granted === this.isXrFeatureEnabled(xrFeature)) {
+            return;
+        }
+
+        if (!granted) {
+            this._experience._logger.warn(this.name, `The session started without ${xrFeature}`);
+        }
+
+        this._experience.reportCapability({
+            feature: this.name,
+            xrFeature: xrFeature,
+            version: granted ? version : null,
+            enabled: granted,
+            reason: granted ? undefined : "not supported by the session",
+        });
+    }
+
+
+    /**
+     * Whether a WebXR feature this module enabled is enabled, according to the capability report.
+     * An optional feature is only known to be enabled once the session started.
+     * @param xrFeature The name of the WebXR feature.
+     */
+    isXrFeatureEnabled(xrFeature: string): boolean {
+        return this._experience.getCapabilities().some((capability) => capability.feature === this.name && capability.xrFeature === xrFeature && capability.enabled);
+    }
+
+
+    /**
+     * Creates the meshes and observers of this module.
+     * @returns A promise that resolves when the module is ready.
+     */
+    async createScene(): Promise<void> {
+        return;
+    }
+
+
+    /**
+     * Adds an observer that is removed again when the module is disposed.
+     * Observers of controllers don't need this, they are disposed along with the controller.
+     * @param observable The observable.
+     * @param callback The callback of the observer.
+     * @param insertFirst Whether the observer is notified before the ones that were added earlier.
+     */
+    observe<T>(observable: Observable<T>, callback: (eventData: T, eventState: EventState) => void, insertFirst = false) {
+        const observer = observable.add(callback, undefined, insertFirst);
+
+        this._removeObservers.push(() => observable.remove(observer));
+    }
+
+
+    /**
+     * Called when the user enters XR, also when entering again after leaving.
+     */
+    onSessionStarted(): void {
+        return;
+    }
+
+
+    /**
+     * Called when the reference space of the session is granted, after `onSessionStarted`.
+     * @param _referenceSpaceType The granted reference space type, see `XrExperience.requestReferenceSpace`.
+     */
+    onReferenceSpaceGranted(_referenceSpaceType: ReferenceSpaceType): void {
+        return;
+    }
+
+
+    /**
+     * Called when the user leaves XR. The module resets its state, so the experience starts over
+     * when entering again.
+     */
+    onSessionEnded(): void {
+        return;
+    }
+
+
+    /**
+     * Removes the observers of this module. Its meshes are disposed along with the scene.
+     */
+    dispose(): void {
+        this._removeObservers.forEach((removeObserver) => removeObserver());
+        this._removeObservers = [];
+    }
+}
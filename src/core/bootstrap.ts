@@ -0,0 +1,85 @@
+import { XrExperience } from './XrExperience';
+import { classArguments } from './types';
+import { loadConfig } from './config';
+import { errorMessage } from './Logger';
+import { XrFeature } from './XrFeature';
+import { LogPanelFeature } from '../features/LogPanelFeature';
+import { PhysicsFeature } from '../features/PhysicsFeature';
+import { parseMeasurePlanes, PlaneMeasurementFeature } from '../features/PlaneMeasurementFeature';
+import { parseRoomExportFormats, RoomExportFeature } from '../export/RoomExportFeature';
+import { SessionRecorderFeature } from '../recording/SessionRecorderFeature';
+
+/**
+ * Starts an article part.
+ * The arguments of the part can be overridden by a JSON config file with `?config=<url>` and by options
+ * in the query string, i.e. `?debug&shadowQuality=low`. Invalid values are shown and the part is not started.
+ * With `?record` in the URL the session is recorded and downloaded as a JSON file when it ends,
+ * with `?replay=<url>` the recording at the URL is replayed on desktop through a fake XR session.
+ * With `?exportRoom` the detected planes are downloaded when the session ends, as JSON, glTF and SVG
+ * or in the formats listed, i.e. `?exportRoom=json,svg`.
+ * With `?measurePlanes` every plane is labeled with its measurements, with `?measurePlanes=selected` the plane selected with a controller.
+ * With `?physics` the box falls onto the detected planes and can be grabbed and thrown.
+ * Every part gets the log panel, which shows warnings and errors inside the headset.
+ * @param args The arguments of the experience.
+ * @returns A promise that resolves with the experience once it is created.
+ * @throws Rejects if the experience fails to start, it is disposed by then.
+ */
+export async function startExperience(args: classArguments): Promise<XrExperience> {
+    const params = new URLSearchParams(window.location.search);
+    const replayUrl = params.get('replay');
+    const exportRoom = params.get('exportRoom');
+    const measurePlanes = params.get('measurePlanes');
+
+    try {
+        args = { ...args, ...await loadConfig(params) };
+
+        if (exportRoom !== null) {
+            args = withFeatures(args, [], [new RoomExportFeature(parseRoomExportFormats(exportRoom))]);
+        }
+
+        if (measurePlanes !== null) {
+            args = withFeatures(args, [], [new PlaneMeasurementFeature({ labelAll: parseMeasurePlanes(measurePlanes) })]);
+        }
+    } catch (error) {
+        alert(errorMessage(error));
+        throw error;
+    }
+
+    if (params.has('physics')) {
+        args = withFeatures(args, [], [new PhysicsFeature()]);
+    }
+
+    args = withFeatures(args, [], [new LogPanelFeature()]);
+
+    if (replayUrl !== null) {
+        // Loaded on demand, so the fake XR session the replay runs on is not part of the bundle of a part
+        const [{ replayRecording }, { loadRecording }] = await Promise.all([import('../recording/SessionReplayer'), import('../recording/XrRecording')]);
+        const { experience } = await replayRecording(args, await loadRecording(replayUrl));
+        return experience;
+    }
+
+    if (params.has('record')) {
+        // The recorder goes first, so it sees the events before other features consume them
+        args = withFeatures(args, [new SessionRecorderFeature()], []);
+    }
+
+    return new XrExperience(args).whenReady();
+}
+
+
+/**
+ * Adds feature modules to the ones of the part, they are enabled even if `enabledFeatures` leaves them out.
+ * @param args The arguments of the experience.
+ * @param before The feature modules to add before the ones of the part.
+ * @param after The feature modules to add after the ones of the part.
+ * @returns The arguments with the feature modules added.
+ */
+function withFeatures(args: classArguments, before: XrFeature[], after: XrFeature[]): classArguments {
+    const added = [...before, ...after].map((feature) => feature.name);
+
+    return {
+        ...args,
+        features: [...before, ...(args.features ?? []), ...after],
+        enabledFeatures: args.enabledFeatures && [...added, ...args.enabledFeatures],
+    };
+}
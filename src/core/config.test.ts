@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseJsonConfig, parseQueryConfig, validateConfig } from './config';
+
+
+describe('validateConfig', () => {
+    it('returns the valid options', () => {
+        const config = { debug: true, sessionModes: ['immersive-vr', 'inline'], floorOffset: 0.5, shadowQuality: 'low', seed: 3 };
+
+        expect(validateConfig(config, 'test')).toEqual(config);
+    });
+
+
+    it('lists every invalid value and unknown option', () => {
+        const validate = () => validateConfig({ debug: 'yes', sessionModes: ['immersive-xr'], floorOffset: -1, seed: 1.5, colour: 'red' }, 'test');
+
+        expect(validate).toThrowError(/^Invalid configuration in test:/);
+        expect(validate).toThrowError('debug must be true or false, got "yes"');
+        expect(validate).toThrowError('sessionModes contains "immersive-xr"');
+        expect(validate).toThrowError('floorOffset must be a number of meters >= 0, got -1');
+        expect(validate).toThrowError('seed must be an integer, got 1.5');
+        expect(validate).toThrowError('unknown option "colour"');
+    });
+
+
+    it('rejects empty lists', () => {
+        expect(() => validateConfig({ enabledFeatures: [] }, 'test')).toThrowError('enabledFeatures must be a non-empty list, got []');
+    });
+});
+
+
+describe('parseQueryConfig', () => {
+    it('parses flags, lists and numbers', () => {
+        const params = new URLSearchParams('debug&persistPlanes=false&sessionModes=immersive-vr, inline&floorOffset=1.2&seed=9&replay=x.json');
+
+        expect(parseQueryConfig(params)).toEqual({
+            debug: true,
+            persistPlanes: false,
+            sessionModes: ['immersive-vr', 'inline'],
+            floorOffset: 1.2,
+            seed: 9,
+        });
+    });
+
+
+    it('reports values that are not numbers', () => {
+        expect(() => parseQueryConfig(new URLSearchParams('floorOffset=high'))).toThrowError('floorOffset must be a number of meters >= 0, got "high"');
+    });
+});
+
+
+describe('parseJsonConfig', () => {
+    it('rejects documents that are not JSON objects', () => {
+        expect(() => parseJsonConfig('[]', 'config.json')).toThrowError('Invalid configuration in config.json: expected a JSON object');
+        expect(() => parseJsonConfig('{', 'config.json')).toThrowError(/^Invalid configuration in config.json: /);
+    });
+});
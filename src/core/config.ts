@@ -0,0 +1,213 @@
+import type { classArguments, MeasurementUnits, PlaneVisualization, ReferenceSpaceType, SessionModes, ShadowQuality } from './types';
+import { errorMessage } from './Logger';
+import { themes, ThemeName } from './Theme';
+
+/**
+ * The arguments of the experience that can be configured without editing the part.
+ */
+export type XrConfig = Partial<Pick<classArguments,
+    'debug' | 'sessionModes' | 'referenceSpaceTypes' | 'floorOffset' | 'enabledFeatures' | 'shadowQuality' | 'planeVisualization' | 'persistPlanes' | 'measurementUnits' | 'theme' | 'seed' | 'modelUrl'>>;
+
+const sessionModes: SessionModes[] = ["immersive-ar", "immersive-vr", "inline"];
+const referenceSpaceTypes: ReferenceSpaceType[] = ["local-floor", "bounded-floor", "unbounded", "local", "viewer"];
+const shadowQualities: ShadowQuality[] = ["off", "low", "medium", "high"];
+const planeVisualizations: PlaneVisualization[] = ["random", "classification", "grid", "wireframe", "hidden", "occlusion"];
+const measurementUnits: MeasurementUnits[] = ["metric", "imperial"];
+const themeNames = Object.keys(themes) as ThemeName[];
+const listKeys = ['sessionModes', 'referenceSpaceTypes', 'enabledFeatures'];
+const flagKeys = ['debug', 'persistPlanes'];
+const configKeys = [...flagKeys, 'floorOffset', 'shadowQuality', 'planeVisualization', 'measurementUnits', 'theme', 'seed', 'modelUrl', ...listKeys];
+
+
+/**
+ * Validates a configuration and collects every invalid value, so they can be fixed in one go.
+ * @param config The configuration, i.e. the parsed JSON config file.
+ * @param source Where the configuration comes from, used in the error message.
+ * @returns The configuration.
+ * @throws {Error} Throws an error listing all unknown options and invalid values.
+ */
+export function validateConfig(config: { [key: string]: unknown }, source: string): XrConfig {
+    const errors: string[] = [];
+    const result: XrConfig = {};
+
+    const isListOf = <T>(key: string, value: unknown, allowed: T[] | null): value is T[] => {
+        if (!Array.isArray(value) || value.length === 0 || !value.every((item) => typeof item === 'string')) {
+            errors.push(`${key} must be a non-empty list, got ${JSON.stringify(value)}`);
+            return false;
+        }
+
+        const invalid = allowed === null ? [] : value.filter((item) => !allowed.includes(item as T));
+
+        if (invalid.length) {
+            errors.push(`${key} contains ${invalid.map((item) => `"${item}"`).join(', ')}, expected any of ${allowed!.join(', ')}`);
+            return false;
+        }
+        return true;
+    };
+
+    for (const [key, value] of Object.entries(config)) {
+        switch (key) {
+            case 'debug':
+            case 'persistPlanes':
+                if (typeof value === 'boolean') {
+                    result[key] = value;
+                } else {
+                    errors.push(`${key} must be true or false, got ${JSON.stringify(value)}`);
+                }
+                break;
+            case 'sessionModes':
+                if (isListOf(key, value, sessionModes)) {
+                    result.sessionModes = value;
+                }
+                break;
+            case 'referenceSpaceTypes':
+                if (isListOf(key, value, referenceSpaceTypes)) {
+                    result.referenceSpaceTypes = value;
+                }
+                break;
+            case 'enabledFeatures':
+                // The names are checked against the feature modules of the part by the experience
+                if (isListOf<string>(key, value, null)) {
+                    result.enabledFeatures = value;
+                }
+                break;
+            case 'floorOffset':
+                if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+                    result.floorOffset = value;
+                } else {
+                    errors.push(`floorOffset must be a number of meters >= 0, got ${JSON.stringify(value)}`);
+                }
+                break;
+            case 'shadowQuality':
+                if (shadowQualities.includes(value as ShadowQuality)) {
+                    result.shadowQuality = value as ShadowQuality;
+                } else {
+                    errors.push(`shadowQuality must be one of ${shadowQualities.join(', ')}, got ${JSON.stringify(value)}`);
+                }
+                break;
+            case 'planeVisualization':
+                if (planeVisualizations.includes(value as PlaneVisualization)) {
+                    result.planeVisualization = value as PlaneVisualization;
+                } else {
+                    errors.push(`planeVisualization must be one of ${planeVisualizations.join(', ')}, got ${JSON.stringify(value)}`);
+                }
+                break;
+            case 'measurementUnits':
+                if (measurementUnits.includes(value as MeasurementUnits)) {
+                    result.measurementUnits = value as MeasurementUnits;
+                } else {
+                    errors.push(`measurementUnits must be one of ${measurementUnits.join(', ')}, got ${JSON.stringify(value)}`);
+                }
+                break;
+            case 'theme':
+                if (themeNames.includes(value as ThemeName)) {
+                    result.theme = value as ThemeName;
+                } else {
+                    errors.push(`theme must be one of ${themeNames.join(', ')}, got ${JSON.stringify(value)}`);
+                }
+                break;
+            case 'seed':
+                if (typeof value === 'number' && Number.isInteger(value)) {
+                    result.seed = value;
+                } else {
+                    errors.push(`seed must be an integer, got ${JSON.stringify(value)}`);
+                }
+                break;
+            case 'modelUrl':
+                if (typeof value === 'string' && value.length > 0) {
+                    result.modelUrl = value;
+                } else {
+                    errors.push(`modelUrl must be a URL, got ${JSON.stringify(value)}`);
+                }
+                break;
+            default:
+                errors.push(`unknown option "${key}", expected any of ${configKeys.join(', ')}`);
+        }
+    }
+
+    if (errors.length) {
+        throw new Error(`Invalid configuration in ${source}:\n${errors.join('\n')}`);
+    }
+
+    return result;
+}
+
+
+/**
+ * Parses the configuration from the query string, i.e. `?debug&sessionModes=immersive-vr,inline&shadowQuality=low`.
+ * Lists are comma separated, a flag without a value is true. Parameters that are not options are ignored.
+ * @param params The query string parameters.
+ * @returns The configuration.
+ * @throws {Error} Throws an error listing all invalid values.
+ */
+export function parseQueryConfig(params: URLSearchParams): XrConfig {
+    const config: { [key: string]: unknown } = {};
+
+    for (const key of configKeys) {
+        const value = params.get(key);
+
+        if (value === null) {
+            continue;
+        }
+
+        if (listKeys.includes(key)) {
+            config[key] = value.split(',').map((item) => item.trim()).filter((item) => item.length > 0);
+        } else if (flagKeys.includes(key)) {
+            config[key] = value === '' || value === 'true' ? true : value === 'false' ? false : value;
+        } else if (key === 'floorOffset' || key === 'seed') {
+            config[key] = value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value;
+        } else {
+            config[key] = value;
+        }
+    }
+
+    return validateConfig(config, 'the query string');
+}
+
+
+/**
+ * Parses a JSON config file, which has the same options as the query string.
+ * @param json The JSON document.
+ * @param source Where the document comes from, used in the error message.
+ * @returns The configuration.
+ * @throws {Error} Throws an error if the document is not a JSON object or has invalid values.
+ */
+export function parseJsonConfig(json: string, source = 'the config file'): XrConfig {
+    let config: unknown;
+
+    try {
+        config = JSON.parse(json);
+    } catch (error) {
+        throw new Error(`Invalid configuration in ${source}: ${errorMessage(error)}`);
+    }
+
+    if (config === null || typeof config !== 'object' || Array.isArray(config)) {
+        throw new Error(`Invalid configuration in ${source}: expected a JSON object`);
+    }
+
+    return validateConfig(config as { [key: string]: unknown }, source);
+}
+
+
+/**
+ * Loads the configuration of the experience: the config file the `config` parameter points to, if any,
+ * overridden by the options in the query string.
+ * @param params The query string parameters.
+ * @returns A promise that resolves with the configuration.
+ */
+export async function loadConfig(params: URLSearchParams): Promise<XrConfig> {
+    const url = params.get('config');
+    let fileConfig: XrConfig = {};
+
+    if (url !== null) {
+        const response = await fetch(url);
+
+        if (!response.ok) {
+            throw new Error(`Unable to load configuration ${url}: ${response.status}`);
+        }
+
+        fileConfig = parseJsonConfig(await response.text(), url);
+    }
+
+    return { ...fileConfig, ...parseQueryConfig(params) };
+}
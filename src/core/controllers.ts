@@ -0,0 +1,13 @@
+import { Ray, WebXRInputSource } from '@babylonjs/core';
+
+/**
+ * Creates a ray from the controller.
+ * @param controller The controller to create the ray from.
+ * @param length The length of the ray.
+ * @returns A ray.
+ */
+export function createRayFromController(controller: WebXRInputSource, length = 100): Ray {
+    const origin = controller.pointer.position;
+    const direction = controller.pointer.forward;
+    return new Ray(origin, direction, length);
+}
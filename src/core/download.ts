@@ -0,0 +1,20 @@
+/**
+ * How long the object URL of a download is kept, in milliseconds. The browser reads it after `click` returns.
+ */
+const revokeDelay = 10000;
+
+/**
+ * Downloads a blob as a file.
+ * @param blob The content of the file.
+ * @param filename The name of the file.
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+
+    link.href = url;
+    link.download = filename;
+    link.click();
+
+    setTimeout(() => URL.revokeObjectURL(url), revokeDelay);
+}
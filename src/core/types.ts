@@ -0,0 +1,170 @@
+import type { Engine, Scene, Vector3, WebXRDefaultExperience } from '@babylonjs/core';
+
+import type { InputBinding } from './InputActions';
+import type { ThemeName } from './Theme';
+import type { XrFeature } from './XrFeature';
+
+export type classArguments = {
+    debug: boolean;
+    features?: XrFeature[];
+    /**
+     * The engine to render with, i.e. a NullEngine when running headless.
+     * If not defined, an engine is created for the `#canvas` element.
+     */
+    engine?: Engine;
+    /**
+     * Creates the XR experience, i.e. a fake XR session when running headless.
+     * If not defined, the WebXR default experience helper is used.
+     */
+    xrFactory?: (scene: Scene) => Promise<WebXRDefaultExperience>;
+    /**
+     * The session modes to try, in order of preference.
+     * Defaults to AR, falling back to VR in a virtual environment and then to inline.
+     * If none is supported the experience falls back to a desktop preview.
+     */
+    sessionModes?: SessionModes[];
+    /**
+     * The session modes the device supports, i.e. when running headless.
+     * If not defined, the device is queried for each mode.
+     */
+    supportedSessionModes?: SessionModes[];
+    /**
+     * The reference space types to request, in order of preference.
+     * Each rejected type falls through to the next one, inline sessions always use "viewer".
+     * Defaults to the floor-relative types, falling back to "local" and then to "viewer".
+     * With `persistPlanes` "bounded-floor" is preferred, as the planes are only stored in it.
+     */
+    referenceSpaceTypes?: ReferenceSpaceType[];
+    /**
+     * The estimated height of the viewer above the floor in meters.
+     * If only "local" or "viewer" is granted, the reference space is offset by it so y = 0 stays on the floor.
+     * Defaults to 1.6.
+     */
+    floorOffset?: number;
+    /**
+     * The names of the feature modules to enable, i.e. "planes" or "hitTest".
+     * The other feature modules of the part are left out. If not defined, all of them are enabled.
+     */
+    enabledFeatures?: string[];
+    /**
+     * The resolution and blur of the shadows, "off" disables them. Defaults to "medium".
+     */
+    shadowQuality?: ShadowQuality;
+    /**
+     * How the detected planes are drawn. Defaults to "random".
+     */
+    planeVisualization?: PlaneVisualization;
+    /**
+     * Whether the detected planes are stored in the browser when the session ends and shown again
+     * right away in the next session, until the runtime detects them again. Defaults to false.
+     * The planes are only stored in a "bounded-floor" reference space and expire after a week.
+     */
+    persistPlanes?: boolean;
+    /**
+     * The units the plane measurements are shown in. Defaults to "metric".
+     */
+    measurementUnits?: MeasurementUnits;
+    /**
+     * The colours of the planes, the objects and the hit test marker. Defaults to "default".
+     */
+    theme?: ThemeName;
+    /**
+     * The seed of the random colours, i.e. of the planes in the "random" visualization and of the box when it is selected.
+     * The colours are picked again from the start when a session starts, so a replayed session looks the same. Defaults to 1.
+     */
+    seed?: number;
+    /**
+     * The URL of the door model. Defaults to "/models/door.glb".
+     */
+    modelUrl?: string;
+    /**
+     * Binds the actions of the features to other controller components, per hand or per input profile.
+     * They replace the default bindings of the actions they bind, see `defaultInputBindings`.
+     */
+    inputBindings?: InputBinding[];
+    /**
+     * The directions, position and intensities of the lights of the scene, see `LightArguments`.
+     */
+    lights?: LightArguments;
+}
+
+/**
+ * The lights of the scene: a directional light, which casts the shadows, and a hemispheric light.
+ */
+export type LightArguments = {
+    /**
+     * The direction of the directional light. Defaults to (0, 0, 10).
+     */
+    direction?: Vector3;
+    /**
+     * The position of the directional light, the shadows are cast from it. Defaults to the origin.
+     */
+    position?: Vector3;
+    /**
+     * The intensity of the directional light. Defaults to 0.3.
+     */
+    intensity?: number;
+    /**
+     * The direction the hemispheric light points at. Defaults to (0, 1, 0).
+     */
+    hemisphericDirection?: Vector3;
+    /**
+     * The intensity of the hemispheric light. Defaults to 0.7.
+     */
+    hemisphericIntensity?: number;
+}
+
+/**
+ * Represents the shadow quality.
+ * Possible values are "off", "low", "medium", and "high".
+ */
+export type ShadowQuality = "off" | "low" | "medium" | "high";
+
+/**
+ * Represents how the detected planes are drawn.
+ * Possible values are "random" (a random tint per plane), "classification" (a colour per class), "grid",
+ * "wireframe" (the outline only), "hidden", and "occlusion" (invisible, but hiding virtual objects behind them).
+ */
+export type PlaneVisualization = "random" | "classification" | "grid" | "wireframe" | "hidden" | "occlusion";
+
+/**
+ * Represents the units measurements are shown in.
+ * Possible values are "metric" (meters and square meters) and "imperial" (feet, inches and square feet).
+ */
+export type MeasurementUnits = "metric" | "imperial";
+
+/**
+ * The outcome of enabling a WebXR feature a feature module depends on.
+ */
+export type XrCapability = {
+    /**
+     * The name of the feature module.
+     */
+    feature: string;
+    /**
+     * The name of the WebXR feature, i.e. "xr-plane-detection".
+     * Null if the feature module was skipped as a whole.
+     */
+    xrFeature: string | null;
+    /**
+     * The version of the WebXR feature that was enabled, null if it was not enabled.
+     */
+    version: number | null;
+    enabled: boolean;
+    /**
+     * Why the feature was not enabled.
+     */
+    reason?: string;
+}
+
+/**
+ * Represents the available session modes.
+ * Possible values are "immersive-ar", "immersive-vr", and "inline".
+ */
+export type SessionModes = "immersive-ar" | "immersive-vr" | "inline";
+
+/**
+ * Represents the type of reference space.
+ * Possible values are "local-floor", "bounded-floor", "unbounded", "local", and "viewer".
+ */
+export type ReferenceSpaceType = "local-floor" | "bounded-floor" | "unbounded" | "local" | "viewer";
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+
+import { getPersistenceKey, getScanConfidence, maxScanAge } from './PlanePersistence';
+import { RoomScan, RoomScanVersion } from './RoomScan';
+
+const boundedSpace = (points: [number, number][]) =>
+    ({ boundsGeometry: points.map(([x, z]) => ({ x, y: 0, z, w: 1 })) }) as unknown as XRBoundedReferenceSpace;
+const scanAt = (time: string): RoomScan => ({ version: RoomScanVersion, time, floorHeight: 0, planes: [], surfaces: [] });
+
+
+describe('getPersistenceKey', () => {
+    it('tells rooms apart by the area and the perimeter of the boundary', () => {
+        const room = boundedSpace([[0, 0], [4, 0], [4, 3], [0, 3]]);
+
+        expect(getPersistenceKey('bounded-floor', room)).toBe('bounded-floor:12.0:14.0');
+        expect(getPersistenceKey('bounded-floor', boundedSpace([[0, 0], [4.02, 0], [4.02, 3], [0, 3]]))).toBe('bounded-floor:12.1:14.0');
+        expect(getPersistenceKey('bounded-floor', boundedSpace([[0, 0], [6, 0], [6, 2], [0, 2]]))).toBe('bounded-floor:12.0:16.0');
+    });
+
+
+    it('does not store the planes without a boundary fixed in the room', () => {
+        expect(getPersistenceKey('local-floor', boundedSpace([[0, 0], [4, 0], [4, 3]]))).toBeNull();
+        expect(getPersistenceKey('bounded-floor', boundedSpace([]))).toBeNull();
+        expect(getPersistenceKey('bounded-floor', {} as XRReferenceSpace)).toBeNull();
+        expect(getPersistenceKey('bounded-floor', null)).toBeNull();
+    });
+});
+
+
+describe('getScanConfidence', () => {
+    it('decays from 1 to 0 as the scan ages', () => {
+        const now = Date.parse('2024-01-08T00:00:00.000Z');
+
+        expect(getScanConfidence(scanAt('2024-01-08T00:00:00.000Z'), now)).toBe(1);
+        expect(getScanConfidence(scanAt(new Date(now - maxScanAge / 2).toISOString()), now)).toBeCloseTo(0.5);
+        expect(getScanConfidence(scanAt(new Date(now - maxScanAge).toISOString()), now)).toBe(0);
+        expect(getScanConfidence(scanAt('2023-01-01T00:00:00.000Z'), now)).toBe(0);
+    });
+
+
+    it('does not trust a scan with an unreadable time', () => {
+        expect(getScanConfidence(scanAt('yesterday'))).toBe(0);
+    });
+});
@@ -0,0 +1,259 @@
+import { Matrix, Mesh, Quaternion, Vector3 } from '@babylonjs/core';
+
+import { errorMessage } from '../core/Logger';
+import { ReferenceSpaceType } from '../core/types';
+import type { PlaneMetadata } from '../features/PlaneClassifier';
+import type { PlaneDetectionFeature } from '../features/PlaneDetectionFeature';
+import { RoomSurfaceAggregator, SurfacePlane } from '../features/RoomSurfaces';
+import { createRoomScan, RoomScan, ScannedSurface } from './RoomScan';
+import { RoomScanStore } from './RoomScanStore';
+
+/**
+ * How long a stored scan is shown as provisional planes, in milliseconds.
+ * The confidence of its planes decays from 1 when it was stored to 0 when it is this old, then it is deleted.
+ */
+export const maxScanAge = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * A stored surface that has not been detected again yet, with the mesh it is shown as.
+ */
+export type ProvisionalPlane = {
+    mesh: Mesh;
+    surfacePlane: SurfacePlane;
+    surface: ScannedSurface;
+}
+
+
+/**
+ * Stores the surfaces of the plane detection feature when the session ends, by the boundary of the bounded reference space,
+ * and shows them as provisional planes in the next session in the same room, see `getPersistenceKey`.
+ * Provisional planes are neither picked nor collided with, they fade out as the scan ages, see `getScanConfidence`,
+ * and a provisional plane is removed once a detected plane of the same surface arrives.
+ */
+export class PlanePersistence {
+    _planes: PlaneDetectionFeature;
+    _store: RoomScanStore;
+    // The key the planes of the current session are stored with, null outside of a session
+    _key: string | null;
+    // The stored surfaces that were not detected again yet, by surface id
+    _provisionalPlanes: Map<number, ProvisionalPlane>;
+
+
+    /**
+     * @param planes The plane detection feature whose planes are stored and restored.
+     * @param store The store of the scans.
+     */
+    constructor(planes: PlaneDetectionFeature, store = new RoomScanStore()) {
+        this._planes = planes;
+        this._store = store;
+        this._key = null;
+        this._provisionalPlanes = new Map();
+    }
+
+
+    /**
+     * Shows the planes stored for the granted reference space, deletes them if they expired.
+     * @param referenceSpaceType The granted reference space type.
+     * @param referenceSpace The granted reference space.
+     */
+    restore(referenceSpaceType: ReferenceSpaceType, referenceSpace: XRReferenceSpace | null | undefined) {
+        const logger = this._planes._experience._logger;
+        const key = getPersistenceKey(referenceSpaceType, referenceSpace);
+
+        this._key = key;
+
+        if (key === null) {
+            logger.info(this._planes.name, `the planes are not stored, the origin of the ${referenceSpaceType} reference space is not fixed in the room`);
+            return;
+        }
+
+        this._store.load(key).then((scan) => {
+            // The session may have ended while loading
+            if (scan === null || this._key !== key) {
+                return Promise.resolve();
+            }
+
+            if (getScanConfidence(scan) === 0) {
+                logger.info(this._planes.name, `the planes stored for ${key} at ${scan.time} expired`);
+                return this._store.delete(key);
+            }
+            this.createProvisionalPlanes(scan);
+            return Promise.resolve();
+        }).catch((error) => {
+            logger.warn(this._planes.name, `Unable to load the stored planes: ${errorMessage(error)}`, error);
+        });
+    }
+
+
+    /**
+     * Stores the planes detected in the session, unless no planes were detected.
+     * The provisional planes that were not detected again are not stored again, so they expire with the scan they came from.
+     */
+    save() {
+        const logger = this._planes._experience._logger;
+        const key = this._key;
+        const scan = createRoomScan(this._planes);
+
+        if (key === null || scan.planes.length === 0) {
+            return;
+        }
+
+        this._store.save(key, scan).then(() => {
+            logger.info(this._planes.name, `stored ${scan.planes.length} planes for ${key}`);
+        }).catch((error) => {
+            logger.warn(this._planes.name, `Unable to store the planes: ${errorMessage(error)}`, error);
+        });
+    }
+
+
+    /**
+     * Creates a provisional plane for every stored surface that has not been detected again yet.
+     * Provisional planes are drawn, faded by the confidence of the scan, but neither picked nor collided with.
+     * @param scan The stored scan.
+     */
+    createProvisionalPlanes(scan: RoomScan) {
+        const surfaces = this._planes._surfaces;
+        const detected = [...surfaces._planes.values()];
+        const confidence = getScanConfidence(scan);
+
+        scan.surfaces.forEach((surface) => {
+            const polygon = surface.polygon.map((p) => Vector3.FromArray(p));
+            const matrix = Matrix.FromArray(surface.transformationMatrix);
+            const surfacePlane = RoomSurfaceAggregator.createSurfacePlane(surface.id, surface.planeClass, surface.orientation, polygon, matrix);
+
+            if (this._provisionalPlanes.has(surface.id) || detected.some((plane) => surfaces.canMerge(plane, surfacePlane))) {
+                return;
+            }
+
+            const mesh = new Mesh("provisional" + surface.id, this._planes._experience._scene);
+
+            this._planes.buildPolygonVertexData(mesh.name, polygon).applyToMesh(mesh);
+            mesh.rotationQuaternion = new Quaternion();
+            // Until a detected plane confirms it, the surface may have moved or be gone
+            mesh.isPickable = false;
+            mesh.receiveShadows = true;
+            matrix.decompose(mesh.scaling, mesh.rotationQuaternion, mesh.position);
+
+            const height = matrix.getTranslation().y;
+
+            // Negative ids, so they are not mistaken for the ids of detected planes
+            mesh.metadata = {
+                planeId: -2 - surface.id,
+                planeClass: surface.planeClass,
+                orientation: surface.orientation,
+                area: surface.area,
+                height,
+                heightAboveFloor: height - scan.floorHeight,
+                provisional: true,
+                confidence,
+            } satisfies PlaneMetadata;
+
+            this._planes._visualizer?.apply(mesh);
+            this._provisionalPlanes.set(surface.id, { mesh, surfacePlane, surface });
+            this._planes.onPlaneMeshChangedObservable.notifyObservers(mesh);
+        });
+
+        this._planes._experience._logger.debug(this._planes.name, `${this._provisionalPlanes.size} provisional planes from ${scan.time}, confidence ${confidence.toFixed(2)}`);
+    }
+
+
+    /**
+     * Removes the provisional planes that are part of the same surface as a detected plane.
+     * @param planeId The id of the detected plane.
+     */
+    reconcileProvisionalPlanes(planeId: number) {
+        const surfaces = this._planes._surfaces;
+        const detected = surfaces._planes.get(planeId);
+
+        if (detected === undefined) {
+            return;
+        }
+
+        this._provisionalPlanes.forEach((provisional, id) => {
+            if (surfaces.canMerge(detected, provisional.surfacePlane)) {
+                this._planes._experience._logger.debug(this._planes.name, `provisional plane ${id} replaced by plane ${planeId}`);
+                this._planes._visualizer?.removePlane(provisional.mesh.metadata.planeId);
+                provisional.mesh.dispose();
+                this._provisionalPlanes.delete(id);
+            }
+        });
+    }
+
+
+    /**
+     * Returns the meshes of the provisional planes.
+     */
+    getMeshes(): Mesh[] {
+        return [...this._provisionalPlanes.values()].map((plane) => plane.mesh);
+    }
+
+
+    /**
+     * Returns the stored surface a provisional plane is shown for.
+     * @param mesh The mesh.
+     * @returns The surface, or null if the mesh is not a provisional plane.
+     */
+    getSurface(mesh: Mesh): ScannedSurface | null {
+        return [...this._provisionalPlanes.values()].find((plane) => plane.mesh === mesh)?.surface ?? null;
+    }
+
+
+    /**
+     * Removes the provisional planes and forgets the key, i.e. when the session ends.
+     */
+    reset() {
+        this._provisionalPlanes.forEach((plane) => plane.mesh.dispose());
+        this._provisionalPlanes.clear();
+        this._key = null;
+    }
+}
+
+
+/**
+ * Returns the key the planes are stored with in the granted reference space.
+ * The origin of "local-floor", "unbounded" and the other spaces is where the session started, so it moves between sessions.
+ * Only the origin of "bounded-floor" is fixed in the room, and the area and perimeter of its boundary tell the rooms apart.
+ * @param referenceSpaceType The granted reference space type.
+ * @param referenceSpace The granted reference space.
+ * @returns The key, or null if the planes can't be stored in this reference space.
+ */
+export function getPersistenceKey(referenceSpaceType: ReferenceSpaceType, referenceSpace: XRReferenceSpace | null | undefined): string | null {
+    if (referenceSpaceType !== "bounded-floor" || !referenceSpace || !('boundsGeometry' in referenceSpace)) {
+        return null;
+    }
+
+    const bounds = (referenceSpace as XRBoundedReferenceSpace).boundsGeometry;
+    let area = 0;
+    let perimeter = 0;
+
+    // Without a boundary, i.e. a stationary boundary on a Quest, the room is unknown
+    if (bounds.length < 3) {
+        return null;
+    }
+
+    bounds.forEach((point, i) => {
+        const next = bounds[(i + 1) % bounds.length];
+
+        area += point.x * next.z - next.x * point.z;
+        perimeter += Math.hypot(next.x - point.x, next.z - point.z);
+    });
+
+    // Rounded to decimeters, so the boundary matches when the runtime reports it slightly differently
+    return `${referenceSpaceType}:${Math.abs(area / 2).toFixed(1)}:${perimeter.toFixed(1)}`;
+}
+
+
+/**
+ * Returns how far the planes of a stored scan are trusted, it decays with the age of the scan.
+ * @param scan The stored scan.
+ * @param now The current time in milliseconds.
+ * @returns 1 for a scan taken just now, down to 0 for a scan that expired or has an unreadable time.
+ */
+export function getScanConfidence(scan: RoomScan, now = Date.now()): number {
+    const age = now - Date.parse(scan.time);
+
+    if (Number.isNaN(age)) {
+        return 0;
+    }
+    return Math.min(1, Math.max(0, 1 - age / maxScanAge));
+}
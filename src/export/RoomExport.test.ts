@@ -0,0 +1,74 @@
+import { Matrix } from '@babylonjs/core';
+import earcut from 'earcut';
+import { describe, expect, it } from 'vitest';
+
+import { parseRoomExportFormats } from './RoomExportFeature';
+import { RoomScan, RoomScanVersion, ScannedPlane } from './RoomScan';
+import { roomScanToGltf } from './RoomScanGltf';
+import { roomScanToSvg } from './RoomScanSvg';
+
+const square = [[-1, 0, -1], [1, 0, -1], [1, 0, 1], [-1, 0, 1]];
+// A 2 by 2 meter floor at y = 0 and a 2 meter wide, 2 meter high wall along its far edge at z = 1
+const floor: ScannedPlane = {
+    id: 1, orientation: 'horizontal', planeClass: 'floor', area: 4, heightAboveFloor: 0,
+    polygon: square, transformationMatrix: Array.from(Matrix.Identity().m), surfaceId: 1,
+};
+const wall: ScannedPlane = {
+    id: 2, orientation: 'vertical', planeClass: 'wall', semanticLabel: 'wall', area: 4, heightAboveFloor: 1,
+    polygon: square, transformationMatrix: Array.from(Matrix.RotationX(-Math.PI / 2).multiply(Matrix.Translation(0, 1, 1)).m), surfaceId: 2,
+};
+const scan: RoomScan = {
+    version: RoomScanVersion,
+    time: '2024-01-01T00:00:00.000Z',
+    floorHeight: 0,
+    planes: [floor, wall],
+    surfaces: [floor, wall].map(({ id, orientation, planeClass, area, polygon, transformationMatrix }) => ({
+        id, orientation, planeClass, planeIds: [id], area, polygon, transformationMatrix,
+    })),
+};
+
+
+describe('parseRoomExportFormats', () => {
+    it('parses the formats, all of them without a value', () => {
+        expect(parseRoomExportFormats('svg, json')).toEqual(['svg', 'json']);
+        expect(parseRoomExportFormats('')).toEqual(['json', 'gltf', 'svg']);
+    });
+
+
+    it('rejects unknown formats', () => {
+        expect(() => parseRoomExportFormats('json,obj')).toThrowError('exportRoom contains "obj", expected any of json, gltf, svg');
+    });
+});
+
+
+describe('roomScanToSvg', () => {
+    it('draws the floor as an area and the wall as a labeled line', () => {
+        const svg = roomScanToSvg(scan);
+
+        // The room is 2 by 2 meters with a margin of half a meter, at 100 pixels per meter
+        expect(svg).toContain('width="300" height="300"');
+        expect(svg).toContain('<polygon class="floor" points="50,250 250,250 250,50 50,50"');
+        expect(svg).toContain('<line class="wall" x1="250" y1="50" x2="50" y2="50"');
+        // The label is kept upright although the wall runs from right to left
+        expect(svg).toContain('transform="rotate(0 150 50)">2.00 m</text>');
+    });
+});
+
+
+describe('roomScanToGltf', () => {
+    it('converts each plane into a node with its mesh in right-handed coordinates', () => {
+        const global = globalThis as { earcut?: unknown };
+        global.earcut = global.earcut ?? earcut;
+
+        const gltf = JSON.parse(roomScanToGltf(scan));
+
+        expect(gltf.asset.version).toBe('2.0');
+        expect(gltf.nodes.map((node: { extras: object }) => node.extras)).toEqual([
+            expect.objectContaining({ planeId: 1, planeClass: 'floor', surfaceId: 1 }),
+            expect.objectContaining({ planeId: 2, planeClass: 'wall', semanticLabel: 'wall' }),
+        ]);
+        expect(gltf.accessors[3]).toMatchObject({ count: 4, type: 'VEC3', min: [-1, 0, -1], max: [1, 2, -1] });
+        expect(gltf.materials[gltf.meshes[1].primitives[0].material].name).toBe('wall');
+        expect(gltf.buffers[0].uri).toMatch(/^data:application\/octet-stream;base64,/);
+    });
+});
@@ -0,0 +1,129 @@
+import { XrFeature } from '../core/XrFeature';
+import { downloadBlob } from '../core/download';
+import { PlaneDetectionFeature } from '../features/PlaneDetectionFeature';
+import { createRoomScan, RoomScan, RoomScanVersion } from './RoomScan';
+import { roomScanToGltf } from './RoomScanGltf';
+import { roomScanToSvg } from './RoomScanSvg';
+
+export type RoomExportFormat = "json" | "gltf" | "svg";
+
+export const roomExportFormats: RoomExportFormat[] = ["json", "gltf", "svg"];
+
+const mimeTypes: Record<RoomExportFormat, string> = {
+    json: 'application/json',
+    gltf: 'model/gltf+json',
+    svg: 'image/svg+xml',
+};
+
+
+/**
+ * Exports the planes detected in the room as a JSON document, a glTF scene and an SVG floor plan.
+ * The scan is kept when the session ends, so it can still be exported afterwards.
+ */
+export class RoomExportFeature extends XrFeature {
+    readonly name = 'roomExport';
+    _formats: RoomExportFormat[];
+    _downloadOnSessionEnd: boolean;
+    _scan: RoomScan | null;
+
+
+    /**
+     * @param formats The formats that are downloaded.
+     * @param downloadOnSessionEnd Whether the scan is downloaded when the session ends.
+     */
+    constructor(formats: RoomExportFormat[] = roomExportFormats, downloadOnSessionEnd = true) {
+        super();
+        this._formats = formats;
+        this._downloadOnSessionEnd = downloadOnSessionEnd;
+        this._scan = null;
+    }
+
+
+    async createScene(): Promise<void> {
+        const xr = this._experience._xr;
+
+        if (xr === null) {
+            return;
+        }
+
+        // Before the observer of the features manager, which removes the planes when the session ends
+        this.observe(xr.baseExperience.sessionManager.onXRSessionEnded, () => this.keepScan(), true);
+    }
+
+
+    /**
+     * Returns a scan of the planes detected so far, or the last one of the session if it ended.
+     */
+    getScan(): RoomScan {
+        const planes = this._experience.getFeature(PlaneDetectionFeature);
+
+        if (planes !== null && planes._snapshots.size > 0) {
+            return createRoomScan(planes);
+        }
+
+        return this._scan ?? { version: RoomScanVersion, time: new Date().toISOString(), floorHeight: 0, planes: [], surfaces: [] };
+    }
+
+
+    /**
+     * Converts the scan into a format.
+     * @param format The format.
+     * @returns The document.
+     */
+    export(format: RoomExportFormat): string {
+        const scan = this.getScan();
+
+        switch (format) {
+            case "json":
+                return JSON.stringify(scan, null, 2);
+            case "gltf":
+                return roomScanToGltf(scan);
+            case "svg":
+                return roomScanToSvg(scan);
+        }
+    }
+
+
+    /**
+     * Downloads the scan, one file per format.
+     * @param formats The formats to download.
+     */
+    download(formats = this._formats) {
+        const time = new Date().toISOString();
+
+        formats.forEach((format) => {
+            downloadBlob(new Blob([this.export(format)], { type: mimeTypes[format] }), `room-scan-${time}.${format}`);
+        });
+    }
+
+
+    /**
+     * Keeps the scan of the session and downloads it, unless no planes were detected.
+     */
+    keepScan() {
+        this._scan = this.getScan();
+
+        if (this._downloadOnSessionEnd && this._scan.planes.length > 0) {
+            this._experience._logger.info(this.name, `exporting ${this._scan.planes.length} planes`);
+            this.download();
+        }
+    }
+}
+
+
+/**
+ * Parses the formats of `?exportRoom=json,svg`, all formats if there is no value.
+ * @param value The value of the parameter.
+ * @returns The formats.
+ * @throws {Error} Throws an error if a format is unknown.
+ */
+export function parseRoomExportFormats(value: string): RoomExportFormat[] {
+    const formats = value.split(',').map((item) => item.trim()).filter((item) => item.length > 0);
+    const invalid = formats.filter((format) => !roomExportFormats.includes(format as RoomExportFormat));
+
+    if (invalid.length) {
+        throw new Error(`exportRoom contains ${invalid.map((item) => `"${item}"`).join(', ')}, expected any of ${roomExportFormats.join(', ')}`);
+    }
+
+    return formats.length ? formats as RoomExportFormat[] : roomExportFormats;
+}
@@ -0,0 +1,139 @@
+import { Matrix, Vector3 } from '@babylonjs/core';
+
+import type { PlaneDetectionFeature } from '../features/PlaneDetectionFeature';
+import type { PlaneClass, PlaneMetadata } from '../features/PlaneClassifier';
+
+/**
+ * The version of the room scan format, bumped whenever the format changes.
+ */
+export const RoomScanVersion = 1;
+
+export type ScannedPlane = {
+    id: number;
+    orientation: XRPlaneOrientation;
+    planeClass: PlaneClass;
+    semanticLabel?: string;
+    /**
+     * The area of the polygon in square meters.
+     */
+    area: number;
+    heightAboveFloor: number;
+    /**
+     * The polygon of the plane in plane space, as [x, y, z] points.
+     */
+    polygon: number[][];
+    transformationMatrix: number[];
+    /**
+     * The id of the room surface the plane is part of.
+     */
+    surfaceId: number;
+}
+
+export type ScannedSurface = {
+    id: number;
+    orientation: XRPlaneOrientation;
+    planeClass: PlaneClass;
+    planeIds: number[];
+    area: number;
+    /**
+     * The outline of the surface in surface space, as [x, y, z] points.
+     */
+    polygon: number[][];
+    transformationMatrix: number[];
+}
+
+/**
+ * The planes and surfaces detected in a room, in the left-handed world space of the experience, in meters.
+ */
+export type RoomScan = {
+    version: number;
+    /**
+     * When the scan was taken, as an ISO date.
+     */
+    time: string;
+    floorHeight: number;
+    planes: ScannedPlane[];
+    surfaces: ScannedSurface[];
+}
+
+
+/**
+ * Takes a scan of the planes the plane detection feature currently knows.
+ * @param planes The plane detection feature.
+ * @returns The scan.
+ */
+export function createRoomScan(planes: PlaneDetectionFeature): RoomScan {
+    const scannedPlanes: ScannedPlane[] = [];
+
+    planes._snapshots.forEach((snapshot, id) => {
+        const mesh = planes._planes[id];
+
+        if (!mesh || mesh.isDisposed()) {
+            return;
+        }
+
+        const metadata = mesh.metadata as PlaneMetadata;
+
+        scannedPlanes.push({
+            id,
+            orientation: metadata.orientation,
+            planeClass: metadata.planeClass,
+            semanticLabel: metadata.semanticLabel,
+            area: metadata.area,
+            heightAboveFloor: metadata.heightAboveFloor,
+            polygon: snapshot.polygon.map((p) => p.asArray()),
+            transformationMatrix: Array.from(snapshot.transformation.m),
+            surfaceId: planes._surfaces.getSurfaceOfPlane(id)?.id ?? id,
+        });
+    });
+
+    return {
+        version: RoomScanVersion,
+        time: new Date().toISOString(),
+        floorHeight: planes.getFloorHeight(),
+        planes: scannedPlanes,
+        surfaces: planes.getRoomSurfaces().map((surface) => ({
+            id: surface.id,
+            orientation: surface.orientation,
+            planeClass: surface.planeClass,
+            planeIds: surface.planeIds.slice(),
+            area: surface.area,
+            polygon: surface.polygon.map((p) => p.asArray()),
+            transformationMatrix: Array.from(surface.transformationMatrix.m),
+        })),
+    };
+}
+
+
+/**
+ * Parses a room scan and checks that it is in a format this version can read.
+ * @param json The JSON document of the scan.
+ * @returns The scan.
+ * @throws {Error} Throws an error if the document is not a room scan or has an unsupported version.
+ */
+export function parseRoomScan(json: string): RoomScan {
+    const scan = JSON.parse(json) as RoomScan;
+
+    if (!scan || !Array.isArray(scan.planes) || !Array.isArray(scan.surfaces)) {
+        throw new Error('Invalid room scan: planes or surfaces are missing');
+    }
+
+    if (scan.version !== RoomScanVersion) {
+        throw new Error(`Unsupported room scan version ${scan.version}, expected ${RoomScanVersion}`);
+    }
+
+    return scan;
+}
+
+
+/**
+ * Transforms the polygon of a scanned plane or surface into world space.
+ * @param polygon The polygon in plane space.
+ * @param transformationMatrix The pose of the plane.
+ * @returns The points in world space.
+ */
+export function toWorldSpace(polygon: number[][], transformationMatrix: number[]): Vector3[] {
+    const matrix = Matrix.FromArray(transformationMatrix);
+
+    return polygon.map((p) => Vector3.TransformCoordinates(Vector3.FromArray(p), matrix));
+}
@@ -0,0 +1,144 @@
+import { PolygonMeshBuilder, Vector2 } from '@babylonjs/core';
+
+import type { PlaneClass } from '../features/PlaneClassifier';
+import { RoomScan, ScannedPlane, toWorldSpace } from './RoomScan';
+
+/**
+ * The colors of the plane classes in the glTF scene, as linear RGBA.
+ */
+const classColors: Record<PlaneClass, number[]> = {
+    floor: [0.45, 0.45, 0.45, 1],
+    ceiling: [0.8, 0.8, 0.8, 1],
+    wall: [0.9, 0.85, 0.7, 1],
+    table: [0.55, 0.35, 0.2, 1],
+    other: [0.3, 0.5, 0.8, 1],
+};
+
+const FLOAT = 5126;
+const UNSIGNED_INT = 5125;
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+
+
+/**
+ * Converts a room scan into a glTF 2.0 scene with one node per plane, the buffer is embedded as a data URI.
+ * The vertices are in world space and converted to the right-handed coordinate system of glTF.
+ * The class, surface and semantic label of a plane are stored in the `extras` of its node.
+ * @param scan The room scan.
+ * @returns The glTF document as JSON.
+ */
+export function roomScanToGltf(scan: RoomScan): string {
+    const planes = scan.planes.filter((plane) => plane.polygon.length >= 3);
+    const classes = Object.keys(classColors) as PlaneClass[];
+    const chunks: ArrayBuffer[] = [];
+    const bufferViews: object[] = [];
+    const accessors: object[] = [];
+    let byteLength = 0;
+
+    const addBufferView = (data: Float32Array | Uint32Array, target: number): number => {
+        bufferViews.push({ buffer: 0, byteOffset: byteLength, byteLength: data.byteLength, target });
+        chunks.push(data.buffer as ArrayBuffer);
+        byteLength += data.byteLength;
+
+        return bufferViews.length - 1;
+    };
+
+    const meshes = planes.map((plane) => {
+        const { positions, normals, indices } = triangulate(plane);
+        const min = [0, 1, 2].map((axis) => Math.min(...positions.filter((_, index) => index % 3 === axis)));
+        const max = [0, 1, 2].map((axis) => Math.max(...positions.filter((_, index) => index % 3 === axis)));
+
+        accessors.push(
+            { bufferView: addBufferView(positions, ARRAY_BUFFER), componentType: FLOAT, count: positions.length / 3, type: 'VEC3', min, max },
+            { bufferView: addBufferView(normals, ARRAY_BUFFER), componentType: FLOAT, count: normals.length / 3, type: 'VEC3' },
+            { bufferView: addBufferView(indices, ELEMENT_ARRAY_BUFFER), componentType: UNSIGNED_INT, count: indices.length, type: 'SCALAR' },
+        );
+
+        return {
+            name: `plane${plane.id}`,
+            primitives: [{
+                attributes: { POSITION: accessors.length - 3, NORMAL: accessors.length - 2 },
+                indices: accessors.length - 1,
+                material: classes.indexOf(plane.planeClass),
+            }],
+        };
+    });
+
+    const buffer = new Uint8Array(byteLength);
+    let offset = 0;
+
+    chunks.forEach((data) => {
+        buffer.set(new Uint8Array(data), offset);
+        offset += data.byteLength;
+    });
+
+    return JSON.stringify({
+        asset: { version: '2.0', generator: 'webxr-article-series room export' },
+        scene: 0,
+        scenes: [{ name: 'room', nodes: planes.map((_, index) => index) }],
+        nodes: planes.map((plane, index) => ({
+            name: `plane${plane.id}`,
+            mesh: index,
+            extras: {
+                planeId: plane.id,
+                planeClass: plane.planeClass,
+                orientation: plane.orientation,
+                surfaceId: plane.surfaceId,
+                semanticLabel: plane.semanticLabel,
+                area: plane.area,
+            },
+        })),
+        meshes,
+        materials: classes.map((planeClass) => ({
+            name: planeClass,
+            doubleSided: true,
+            pbrMetallicRoughness: { baseColorFactor: classColors[planeClass], metallicFactor: 0, roughnessFactor: 1 },
+        })),
+        accessors,
+        bufferViews,
+        buffers: [{ byteLength, uri: `data:application/octet-stream;base64,${toBase64(buffer)}` }],
+    });
+}
+
+
+/**
+ * Triangulates the polygon of a plane in world space, with the z axis flipped to right-handed coordinates.
+ * Flipping an axis mirrors the triangles, so their winding is reversed to keep them facing the same way.
+ */
+function triangulate(plane: ScannedPlane): { positions: Float32Array, normals: Float32Array, indices: Uint32Array } {
+    const vertexData = new PolygonMeshBuilder(`plane${plane.id}`, plane.polygon.map(([x, , z]) => new Vector2(x, z))).buildVertexData(0);
+    const world = toWorldSpace(chunk(Array.from(vertexData.positions!), 3), plane.transformationMatrix);
+    const normal = toWorldSpace([[0, 0, 0], [0, 1, 0]], plane.transformationMatrix);
+    const up = normal[1].subtract(normal[0]).normalize();
+    const indices = Array.from(vertexData.indices!);
+
+    for (let i = 0; i < indices.length; i += 3) {
+        [indices[i + 1], indices[i + 2]] = [indices[i + 2], indices[i + 1]];
+    }
+
+    return {
+        positions: new Float32Array(world.flatMap((p) => [p.x, p.y, -p.z])),
+        normals: new Float32Array(world.flatMap(() => [up.x, up.y, -up.z])),
+        indices: new Uint32Array(indices),
+    };
+}
+
+
+function chunk(values: number[], size: number): number[][] {
+    const chunks: number[][] = [];
+
+    for (let i = 0; i < values.length; i += size) {
+        chunks.push(values.slice(i, i + size));
+    }
+    return chunks;
+}
+
+
+function toBase64(bytes: Uint8Array): string {
+    let binary = '';
+
+    bytes.forEach((byte) => {
+        binary += String.fromCharCode(byte);
+    });
+    return btoa(binary);
+}
@@ -0,0 +1,102 @@
+import { parseRoomScan, RoomScan } from './RoomScan';
+
+/**
+ * Stores room scans in IndexedDB, one per key, so the planes of a room are known right away in the next session.
+ * Scans are stored as JSON and checked with `parseRoomScan` when loaded, so scans of an older format are ignored.
+ */
+export class RoomScanStore {
+    _databaseName: string;
+    _storeName: string;
+    _database: Promise<IDBDatabase> | null;
+
+
+    constructor(databaseName = "webxr-article-series", storeName = "roomScans") {
+        this._databaseName = databaseName;
+        this._storeName = storeName;
+        this._database = null;
+    }
+
+
+    /**
+     * Opens the database, it is created on first use.
+     * @returns A promise that resolves with the database.
+     * @throws {Error} Throws an error if IndexedDB is not available, i.e. in a private window of some browsers.
+     */
+    open(): Promise<IDBDatabase> {
+        if (this._database === null) {
+            this._database = new Promise((resolve, reject) => {
+                if (typeof indexedDB === 'undefined') {
+                    reject(new Error('IndexedDB is not available'));
+                    return;
+                }
+
+                const request = indexedDB.open(this._databaseName, 1);
+
+                request.onupgradeneeded = () => request.result.createObjectStore(this._storeName);
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+            // Tries again next time instead of keeping the failure
+            this._database.catch(() => {
+                this._database = null;
+            });
+        }
+        return this._database;
+    }
+
+
+    /**
+     * Loads a scan.
+     * @param key The key of the scan, i.e. the boundary of the room it was taken in, see `getPersistenceKey` in PlanePersistence.
+     * @returns A promise that resolves with the scan, or null if there is none or it is in an older format.
+     */
+    async load(key: string): Promise<RoomScan | null> {
+        const json = await this.request<string | undefined>('readonly', (store) => store.get(key));
+
+        if (json === undefined) {
+            return null;
+        }
+
+        try {
+            return parseRoomScan(json);
+        } catch {
+            return null;
+        }
+    }
+
+
+    /**
+     * Stores a scan, replacing the one with the same key.
+     * @param key The key of the scan.
+     * @param scan The scan.
+     * @returns A promise that resolves when the scan is stored.
+     */
+    async save(key: string, scan: RoomScan): Promise<void> {
+        await this.request('readwrite', (store) => store.put(JSON.stringify(scan), key));
+    }
+
+
+    /**
+     * Deletes a scan.
+     * @param key The key of the scan.
+     * @returns A promise that resolves when the scan is deleted.
+     */
+    async delete(key: string): Promise<void> {
+        await this.request('readwrite', (store) => store.delete(key));
+    }
+
+
+    /**
+     * Runs a request against the object store in a transaction of its own.
+     */
+    async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+        const database = await this.open();
+
+        return new Promise((resolve, reject) => {
+            const request = run(database.transaction(this._storeName, mode).objectStore(this._storeName));
+
+            request.onsuccess = () => resolve(request.result as T);
+            request.onerror = () => reject(request.error);
+        });
+    }
+}
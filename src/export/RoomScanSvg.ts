@@ -0,0 +1,105 @@
+import { Vector2 } from '@babylonjs/core';
+
+import type { PlaneClass } from '../features/PlaneClassifier';
+import { RoomScan, ScannedSurface, toWorldSpace } from './RoomScan';
+
+/**
+ * The fill of the horizontal surfaces in the floor plan, ceilings are left out as they would cover the floor.
+ */
+const classFills: Partial<Record<PlaneClass, string>> = {
+    floor: '#e0e0e0',
+    table: '#c9a27e',
+    other: '#b3c7e6',
+};
+
+/**
+ * The margin around the room in meters.
+ */
+const margin = 0.5;
+
+
+/**
+ * Draws a room scan as a 2D floor plan seen from above: the floor, tables and other horizontal surfaces as areas,
+ * and the walls as lines labeled with their length in meters.
+ * @param scan The room scan.
+ * @param pixelsPerMeter The scale of the floor plan.
+ * @returns The SVG document.
+ */
+export function roomScanToSvg(scan: RoomScan, pixelsPerMeter = 100): string {
+    const areas = scan.surfaces.filter((surface) => surface.orientation === 'horizontal' && classFills[surface.planeClass] !== undefined);
+    const walls = scan.surfaces.filter((surface) => surface.orientation === 'vertical' && surface.planeClass === 'wall').map(getWallSegment);
+    const points = [...areas.flatMap(toFloorPlan), ...walls.flatMap((wall) => [wall.start, wall.end])];
+
+    if (points.length === 0) {
+        points.push(Vector2.Zero());
+    }
+
+    const min = new Vector2(Math.min(...points.map((p) => p.x)) - margin, Math.min(...points.map((p) => p.y)) - margin);
+    const max = new Vector2(Math.max(...points.map((p) => p.x)) + margin, Math.max(...points.map((p) => p.y)) + margin);
+    const toPixels = (p: Vector2) => [format((p.x - min.x) * pixelsPerMeter), format((p.y - min.y) * pixelsPerMeter)];
+    const width = format((max.x - min.x) * pixelsPerMeter);
+    const height = format((max.y - min.y) * pixelsPerMeter);
+    const elements: string[] = [];
+
+    areas.forEach((surface) => {
+        const polygon = toFloorPlan(surface).map((p) => toPixels(p).join(',')).join(' ');
+        elements.push(`<polygon class="${surface.planeClass}" points="${polygon}" fill="${classFills[surface.planeClass]}" stroke="#999999" stroke-width="1"/>`);
+    });
+
+    walls.forEach((wall) => {
+        const middle = Vector2.Center(wall.start, wall.end);
+        const direction = wall.end.subtract(wall.start);
+        // Keeps the label upright, reading from left to right
+        let angle = Math.atan2(direction.y, direction.x) * 180 / Math.PI;
+
+        if (angle > 90 || angle < -90) {
+            angle -= Math.sign(angle) * 180;
+        }
+
+        const [x, y] = toPixels(middle);
+        const [x1, y1] = toPixels(wall.start);
+        const [x2, y2] = toPixels(wall.end);
+
+        elements.push(`<line class="wall" x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="#333333" stroke-width="6" stroke-linecap="round"/>`);
+        elements.push(`<text x="${x}" y="${y}" dy="-8" text-anchor="middle" font-family="sans-serif" font-size="14" ` +
+            `transform="rotate(${format(angle)} ${x} ${y})">${wall.length.toFixed(2)} m</text>`);
+    });
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+        `<title>Floor plan, ${scan.time}</title>`,
+        `<rect width="100%" height="100%" fill="#ffffff"/>`,
+        ...elements,
+        '</svg>',
+    ].join('\n');
+}
+
+
+/**
+ * Projects the outline of a surface onto the floor, x to the right and z upwards as in a map.
+ */
+function toFloorPlan(surface: ScannedSurface): Vector2[] {
+    return toWorldSpace(surface.polygon, surface.transformationMatrix).map((p) => new Vector2(p.x, -p.z));
+}
+
+
+/**
+ * Projects a wall onto the floor, the line from one end of the wall to the other.
+ */
+function getWallSegment(surface: ScannedSurface): { start: Vector2, end: Vector2, length: number } {
+    const points = toFloorPlan(surface);
+    const normal = toWorldSpace([[0, 0, 0], [0, 1, 0]], surface.transformationMatrix);
+    // Along the wall, perpendicular to its normal on the floor plan
+    const direction = new Vector2(normal[1].z - normal[0].z, normal[1].x - normal[0].x).normalize();
+    const center = points.reduce((sum, p) => sum.add(p), Vector2.Zero()).scale(1 / points.length);
+    const offsets = points.map((p) => Vector2.Dot(p.subtract(center), direction));
+    const start = center.add(direction.scale(Math.min(...offsets)));
+    const end = center.add(direction.scale(Math.max(...offsets)));
+
+    return { start, end, length: Vector2.Distance(start, end) };
+}
+
+
+function format(value: number): string {
+    return String(Math.round(value * 10) / 10);
+}
@@ -0,0 +1,97 @@
+import {
+    IWebXRAnchor,
+    TransformNode,
+    Vector3,
+    WebXRAnchorSystem,
+    WebXRFeatureName,
+    WebXRFeaturesManager,
+} from '@babylonjs/core';
+
+import { XrFeature } from '../core/XrFeature';
+
+/**
+ * Anchors nodes to real world positions. Only the most recently added anchor is kept.
+ * Outside of AR there is no real world to anchor to, nodes are placed without an anchor instead.
+ * The same fallback is used if the runtime does not support anchors, so placing nodes always works.
+ */
+export class AnchorFeature extends XrFeature {
+    readonly name = 'anchors';
+    _xrAnchors: WebXRAnchorSystem | null;
+
+
+    constructor() {
+        super();
+        this._xrAnchors = null;
+    }
+
+
+    /**
+     * Enables the anchor system.
+     * @param fm The features manager of the default xr experience.
+     */
+    addFeaturesToSession(fm: WebXRFeaturesManager) {
+        this._xrAnchors = this.enableXrFeature<WebXRAnchorSystem>(fm, WebXRFeatureName.ANCHOR_SYSTEM);
+    }
+
+
+    async createScene(): Promise<void> {
+        this.observeAnchors();
+    }
+
+
+    /**
+     * Whether anchors are emulated, either because the session does not show the real world
+     * or because the anchor system could not be enabled or is not supported by the session.
+     */
+    isEmulated(): boolean {
+        return !this._experience.isAugmentedReality() || this._xrAnchors === null || !this._xrAnchors.isCompatible();
+    }
+
+
+    /**
+     * Adds an anchor at the specified position.
+     * Since anchors can't be animated the node attached to the anchor should be used as a parent.
+     * y = 0 is on the floor, the experience offsets reference spaces that are not floor-relative.
+     * @param position The position of the anchor.
+     * @param node The node to attach to the anchor.
+     * @returns A promise that resolves with the anchor, or null if anchors are emulated.
+     */
+    async addAnchorAtPosition(position: Vector3, node: TransformNode): Promise<IWebXRAnchor | null> {
+        if (this.isEmulated()) {
+            node.position = position;
+            return null;
+        }
+
+        const anchor = await this._xrAnchors!.addAnchorAtPositionAndRotationAsync(position);
+
+        node.position = position;
+        anchor.attachedNode = node;
+
+        return anchor;
+    }
+
+
+    /**
+     * Removes the remaining anchors, the anchor system doesn't track them once the session has ended.
+     */
+    onSessionEnded(): void {
+        [...this._xrAnchors?.anchors ?? []].forEach((anchor: IWebXRAnchor) => anchor.remove());
+    }
+
+
+    /**
+     * Observes the XR anchors and removes all but the most recently added one.
+     */
+    observeAnchors() {
+        if (this._xrAnchors === null) {
+            return;
+        }
+        this.observe(this._xrAnchors.onAnchorAddedObservable, (addedAnchor) => {
+            this._xrAnchors!.anchors.forEach((anchor: IWebXRAnchor) => {
+                if (anchor !== addedAnchor) {
+                    anchor.remove();
+                }
+            });
+        })
+    }
+}
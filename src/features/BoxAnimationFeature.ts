@@ -0,0 +1,59 @@
+import {
+    Animation,
+    IAnimationKey,
+    Quaternion,
+} from '@babylonjs/core';
+
+import { XrFeature } from '../core/XrFeature';
+import { BoxFeature } from './BoxFeature';
+
+/**
+ * Rotates the box of the `BoxFeature` around its y axis.
+ * The rotation quaternion is animated, as the euler rotation is ignored once a quaternion is set, i.e. by a physics body.
+ * Composed with the `PhysicsFeature` the box stops rotating, the body rotates it instead.
+ * Must be composed after the `BoxFeature`.
+ */
+export class BoxAnimationFeature extends XrFeature {
+    readonly name = 'boxAnimation';
+
+
+    async createScene(): Promise<void> {
+        this.animateBox();
+    }
+
+
+    /**
+     * Rotates the box mesh.
+     */
+    animateBox() {
+        const box = this._experience.getFeature(BoxFeature)?._box;
+
+        if (!box) {
+            return;
+        }
+
+        // The yaw is animated, the pitch and roll of the box are kept
+        const rotateAnimation = new Animation("boxRotation", "rotationQuaternion", 30, Animation.ANIMATIONTYPE_QUATERNION, Animation.ANIMATIONLOOPMODE_CYCLE);
+        const keyFrames: { frame: number, value: Quaternion }[] = [];
+
+        keyFrames.push({
+            frame: 0,
+            value: Quaternion.RotationYawPitchRoll(0, box.rotation.x, box.rotation.z)
+        });
+
+        keyFrames.push({
+            frame: 50,
+            value: Quaternion.RotationYawPitchRoll(Math.PI / 2, box.rotation.x, box.rotation.z)
+        });
+
+        keyFrames.push({
+            frame: 100,
+            value: Quaternion.RotationYawPitchRoll(Math.PI, box.rotation.x, box.rotation.z)
+        });
+
+        box.rotationQuaternion ??= Quaternion.FromEulerVector(box.rotation);
+        rotateAnimation.setKeys(keyFrames as IAnimationKey[]);
+        box.animations = [rotateAnimation];
+        this._experience._scene.beginAnimation(box, 0, 100, true);
+    }
+}
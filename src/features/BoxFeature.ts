@@ -0,0 +1,95 @@
+import {
+    Color3,
+    Mesh,
+    MeshBuilder,
+    StandardMaterial,
+    Vector3,
+} from '@babylonjs/core';
+
+import { XrFeature } from '../core/XrFeature';
+
+export type BoxFeatureArguments = {
+    position?: Vector3;
+    alpha?: number;
+    isVisible?: boolean;
+}
+
+/**
+ * Adds a box to the scene, in the first object colour of the theme.
+ */
+export class BoxFeature extends XrFeature {
+    readonly name = 'box';
+    _box: Mesh | null;
+    _position: Vector3;
+    _alpha: number;
+    _isVisible: boolean;
+
+
+    constructor(args: BoxFeatureArguments = {}) {
+        super();
+        this._box = null;
+        this._position = args.position ?? Vector3.Zero();
+        this._alpha = args.alpha ?? 1;
+        this._isVisible = args.isVisible ?? true;
+    }
+
+
+    async createScene(): Promise<void> {
+        this.createBox();
+    }
+
+
+    /**
+     * Creates a box mesh.
+     */
+    createBox() {
+        const material = new StandardMaterial("material", this._experience._scene);
+
+        material.diffuseColor = Color3.FromHexString(this._experience._theme.objectColors[0]);
+        material.alpha = this._alpha;
+
+        this._box = MeshBuilder.CreateBox("box", { width: 0.5, height: 0.5, depth: 0.5 }, this._experience._scene);
+        this._box.material = material;
+        this._box.rotation.y = Math.PI / 4;
+        this._box.rotation.x = Math.PI / 4;
+        this._box.position = this._position.clone();
+        this._box.isVisible = this._isVisible;
+        this._experience._shadowGenerator?.addShadowCaster(this._box);
+    }
+
+
+    onSessionEnded(): void {
+        this.resetBox();
+    }
+
+
+    /**
+     * Moves the box back to its initial position, visibility and colour, detached from whatever it was parented to.
+     */
+    resetBox() {
+        if (this._box === null) {
+            return;
+        }
+        this._box.parent = null;
+        this._box.position = this._position.clone();
+        this._box.isVisible = this._isVisible;
+        (this._box.material as StandardMaterial).diffuseColor = Color3.FromHexString(this._experience._theme.objectColors[0]);
+    }
+
+
+    /**
+     * Gives the box another colour, picked from the object colours of the theme with the seeded random generator
+     * of the experience, so the box changes colour the same way whenever a session is replayed.
+     */
+    changeBoxColor() {
+        if (this._box === null) {
+            return;
+        }
+        const mat = this._box.material as StandardMaterial;
+        const current = mat.diffuseColor.toHexString().toLowerCase();
+        const colors = this._experience._theme.objectColors.filter((color) => color.toLowerCase() !== current);
+
+        mat.diffuseColor = Color3.FromHexString(this._experience._random.pick(colors.length ? colors : this._experience._theme.objectColors));
+        this._box.material = mat;
+    }
+}
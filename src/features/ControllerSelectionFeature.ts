@@ -0,0 +1,217 @@
+import {
+    PickingInfo,
+    TransformNode,
+    Vector3,
+    WebXRInputSource,
+} from '@babylonjs/core';
+
+import { XrFeature } from '../core/XrFeature';
+import { errorMessage } from '../core/Logger';
+import { createRayFromController } from '../core/controllers';
+import { AnchorFeature } from './AnchorFeature';
+import { BoxFeature } from './BoxFeature';
+import { DoorFeature } from './DoorFeature';
+import { HitTestFeature } from './HitTestFeature';
+import { PhysicsFeature } from './PhysicsFeature';
+import { ReticlePose } from './Reticle';
+
+/**
+ * What a controller selected with its trigger.
+ */
+export type ControllerSelection = {
+    controller: WebXRInputSource;
+    /**
+     * The hit of the ray of the controller, null if it did not hit a mesh.
+     */
+    pickInfo: PickingInfo | null;
+    /**
+     * Where the reticle of the controller is in the real world, null without a hit test result.
+     * The ray only hits the planes detected so far.
+     */
+    placement: ReticlePose | null;
+}
+
+/**
+ * Casts a ray from a controller when it selects and changes the colour of the box when the ray hits it.
+ * The parts extend it to place the box or the door where the controller points at, see `onSelect`.
+ * The box is placed in a single transform node, which is reused for every placement.
+ */
+export class ControllerSelectionFeature extends XrFeature {
+    readonly name = 'controllerSelection';
+    _boxTransformNode: TransformNode | null;
+
+
+    constructor() {
+        super();
+        this._boxTransformNode = null;
+    }
+
+
+    async createScene(): Promise<void> {
+        this.handleControllerSelection();
+    }
+
+
+    onSessionEnded(): void {
+        // The box is detached by the BoxFeature, the node is kept for the next session
+        if (this._boxTransformNode !== null) {
+            this._boxTransformNode.parent = null;
+        }
+    }
+
+
+    /**
+     * Handles controller selection.
+     */
+    handleControllerSelection() {
+        this.observe(this._experience._inputActions.getObservable("select"), ({ controller, pressed }) => {
+            if (pressed) {
+                this.onSelect(this.getSelection(controller));
+            }
+        });
+    }
+
+
+    /**
+     * Casts the ray of a controller and looks up where its reticle is.
+     * @param controller The controller that selected.
+     * @returns The selection.
+     */
+    getSelection(controller: WebXRInputSource): ControllerSelection {
+        const raycastHit = this._experience._scene.pickWithRay(createRayFromController(controller));
+
+        this._experience._logger.debug(this.name, 'picked', raycastHit);
+
+        return {
+            controller,
+            pickInfo: raycastHit && raycastHit.hit && raycastHit.pickedMesh ? raycastHit : null,
+            placement: this._experience.getFeature(HitTestFeature)?.getPlacementPose(controller) ?? null,
+        };
+    }
+
+
+    /**
+     * Handles a selection. Changes the colour of the box, override it to place things as well.
+     * @param selection The selection.
+     */
+    onSelect(selection: ControllerSelection) {
+        this.selectBox(selection);
+    }
+
+
+    /**
+     * Changes the colour of the box if the ray of the controller hit it.
+     * @param selection The selection.
+     * @returns Whether the box was hit.
+     */
+    selectBox(selection: ControllerSelection): boolean {
+        const boxFeature = this._experience.getFeature(BoxFeature);
+
+        if (boxFeature === null || boxFeature._box === null || selection.pickInfo?.pickedMesh !== boxFeature._box) {
+            return false;
+        }
+
+        boxFeature.changeBoxColor();
+        return true;
+    }
+
+
+    /**
+     * Returns where a selection places things: where the reticle of the controller is, or else where its ray hit.
+     * @param selection The selection.
+     * @returns The position, or null if the controller points at nothing.
+     */
+    getSelectedPosition(selection: ControllerSelection): Vector3 | null {
+        return selection.placement?.position ?? selection.pickInfo?.pickedPoint ?? null;
+    }
+
+
+    /**
+     * Anchors the box where a controller points at.
+     * Since anchors can't be animated the transform node of the box is attached to the anchor.
+     * @param selection The selection.
+     */
+    anchorBox(selection: ControllerSelection) {
+        const anchorFeature = this._experience.getFeature(AnchorFeature);
+        const position = this.getSelectedPosition(selection);
+
+        if (anchorFeature === null || position === null) {
+            return;
+        }
+
+        this.showPlacing(selection);
+        anchorFeature.addAnchorAtPosition(position, this.getBoxTransformNode()).then(() => {
+            this.placeBox(Vector3.Zero(), null);
+        }).catch((error) => {
+            this._experience._logger.error(this.name, `Unable to anchor the box: ${errorMessage(error)}`, error);
+        });
+    }
+
+
+    /**
+     * Anchors the door where a controller points at and puts the box in front of it.
+     * The door container is attached to the anchor, the box is parented to the door.
+     * @param selection The selection.
+     */
+    anchorDoor(selection: ControllerSelection) {
+        const anchorFeature = this._experience.getFeature(AnchorFeature);
+        const doorFeature = this._experience.getFeature(DoorFeature);
+        const position = this.getSelectedPosition(selection);
+
+        if (anchorFeature === null || doorFeature === null || doorFeature._doorContainer === null || position === null) {
+            return;
+        }
+
+        this._experience._logger.debug(this.name, 'placing the door at', position);
+        this.showPlacing(selection);
+        anchorFeature.addAnchorAtPosition(position, doorFeature._doorContainer).then(() => {
+            doorFeature.placeDoor();
+            this.placeBox(new Vector3(0, 1, .5), doorFeature._doorContainer);
+        }).catch((error) => {
+            this._experience._logger.error(this.name, `Unable to anchor the door: ${errorMessage(error)}`, error);
+        });
+    }
+
+
+    /**
+     * Shows the reticle of the controller placing, if the selection places things where the reticle is.
+     * @param selection The selection.
+     */
+    showPlacing(selection: ControllerSelection) {
+        if (selection.placement !== null) {
+            this._experience.getFeature(HitTestFeature)?.showPlacing(selection.controller);
+        }
+    }
+
+
+    /**
+     * Returns the transform node the box is placed in, it is created on first use.
+     */
+    getBoxTransformNode(): TransformNode {
+        this._boxTransformNode ??= new TransformNode('boxTransformNode', this._experience._scene);
+        return this._boxTransformNode;
+    }
+
+
+    /**
+     * Shows the box in its transform node.
+     * @param position The position of the box in the transform node.
+     * @param parent The node to parent the transform node to, null to leave it where it is anchored.
+     */
+    placeBox(position: Vector3, parent: TransformNode | null) {
+        const box = this._experience.getFeature(BoxFeature)?._box;
+
+        if (!box) {
+            return;
+        }
+
+        const boxTransformNode = this.getBoxTransformNode();
+
+        boxTransformNode.parent = parent;
+        box.parent = boxTransformNode;
+        box.position = position;
+        box.isVisible = true;
+        // Composed with ?physics, the body would move the box back to where it was before
+        this._experience.getFeature(PhysicsFeature)?.placeBody(box);
+    }
+}
@@ -0,0 +1,212 @@
+import {
+    AbstractMesh,
+    Animation,
+    Quaternion,
+    Scene,
+    SceneLoader,
+    Vector3,
+} from '@babylonjs/core';
+
+import '@babylonjs/loaders/glTF';
+
+import { XrFeature } from '../core/XrFeature';
+
+export enum DoorMeshes {
+    Handle = 'Handle',
+    Door = 'Door',
+    DoorFrame = 'Door_frame',
+    Container = '__root__',
+}
+
+/**
+ * Loads the door model, hidden until it is placed, and opens and closes the door.
+ */
+export class DoorFeature extends XrFeature {
+    readonly name = 'door';
+    _door: AbstractMesh | null;
+    _doorFrame: AbstractMesh | null;
+    _handle: AbstractMesh | null;
+    _doorContainer: AbstractMesh | null;
+    _doorIsOpen: boolean;
+    _doorIsPlaced: boolean;
+    _doorRotation: Quaternion | null;
+
+
+    constructor() {
+        super();
+        this._door = null;
+        this._doorFrame = null;
+        this._handle = null;
+        this._doorContainer = null;
+        this._doorIsOpen = false;
+        this._doorIsPlaced = false;
+        this._doorRotation = null;
+    }
+
+
+    async createScene(): Promise<void> {
+        this.addDoor();
+    }
+
+
+    /**
+     * Adds a door to the scene, loaded from the model URL of the experience.
+     */
+    addDoor(): void {
+        const url = this._experience._modelUrl;
+        const fileNameIndex = url.lastIndexOf("/") + 1;
+
+        SceneLoader.Append(url.slice(0, fileNameIndex), url.slice(fileNameIndex), this._experience._scene, ((scene: Scene) => {
+            this.initDoor(scene);
+        }), undefined, ((_scene: Scene, message: string, exception?: unknown) => {
+            this._experience._logger.error(this.name, `Unable to load the door model ${url}: ${message}`, exception);
+        }));
+    }
+
+
+    /**
+     * Looks up the meshes of the loaded door model and hides them until the door is placed.
+     * @param scene The scene the door model was loaded into.
+     */
+    initDoor(scene: Scene): void {
+        const missing = Object.values(DoorMeshes).filter((name) => scene.getMeshByName(name) === null);
+
+        if (missing.length) {
+            this._experience._logger.error(this.name, `The door model has no mesh named ${missing.join(', ')}`);
+            return;
+        }
+
+        this._handle = scene.getMeshByName(DoorMeshes.Handle);
+        this._door = scene.getMeshByName(DoorMeshes.Door);
+        this._doorFrame = scene.getMeshByName(DoorMeshes.DoorFrame);
+        this._doorContainer = scene.getMeshByName(DoorMeshes.Container);
+
+        const meshes = this._doorContainer!.getChildMeshes();
+
+        meshes.forEach((mesh) => {
+            this._experience._shadowGenerator?.addShadowCaster(mesh);
+            mesh.receiveShadows = true;
+        });
+
+        this._doorRotation = this._door!.rotationQuaternion?.clone() ?? null;
+        this.hideDoor();
+    }
+
+
+    onSessionEnded(): void {
+        this.resetDoor();
+    }
+
+
+    /**
+     * Hides the door meshes.
+     */
+    hideDoor() {
+        this._handle!.isVisible = false;
+        this._door!.isVisible = false;
+        this._doorFrame!.isVisible = false;
+    }
+
+
+    /**
+     * Closes and hides the door without animating it, so it can be placed again.
+     */
+    resetDoor() {
+        if (this._door === null) {
+            return;
+        }
+
+        this._experience._scene.stopAnimation(this._door);
+        this._door.rotationQuaternion = this._doorRotation?.clone() ?? null;
+        this.hideDoor();
+        this._doorIsOpen = false;
+        this._doorIsPlaced = false;
+    }
+
+
+    /**
+     * Whether the mesh is part of the door model.
+     * @param mesh The mesh to check.
+     */
+    isDoorMesh(mesh: AbstractMesh): boolean {
+        return mesh === this._door || mesh === this._handle || mesh === this._doorFrame;
+    }
+
+
+    /**
+     * Shows the door and marks it as placed.
+     */
+    placeDoor() {
+        this._door!.isVisible = true;
+        this._doorFrame!.isVisible = true;
+        this._handle!.isVisible = true;
+        this._doorIsPlaced = true;
+    }
+
+
+    /**
+     * Rotates the door mesh.
+     */
+    animateDoor(duration: number) {
+        const animationName = this._doorIsOpen ? "doorOpenQuat" : "doorCloseQuat";
+        const doorAnimation = new Animation(animationName, "rotationQuaternion", 30, Animation.ANIMATIONTYPE_QUATERNION, Animation.ANIMATIONLOOPMODE_CONSTANT);
+
+        if (!this._door!.rotationQuaternion) {
+            this._door!.rotationQuaternion = new Quaternion();
+        }
+
+        const startRotation = this._door!.rotationQuaternion!.clone();
+
+        const axis = new Vector3(0, 1, 0);
+        const angle = this._doorIsOpen ? -Math.PI / 1.5 : Math.PI / 1.5;
+        const endRotation = Quaternion.RotationAxis(axis, angle).multiply(startRotation);
+
+        const keyFrames : {frame: number, value: Quaternion}[] = [];
+
+        keyFrames.push({
+            frame: 0,
+            value: startRotation
+        });
+
+        keyFrames.push({
+            frame: duration,
+            value: endRotation
+        });
+
+        doorAnimation.setKeys(keyFrames);
+
+        this._door!.animations = [doorAnimation];
+
+        this._experience._scene.beginAnimation(this._door, 0, duration, false);
+    }
+
+
+    /**
+     * Opens the door by rotating it 120 degrees clockwise.
+     */
+    openDoor() {
+        if (this._door !== null) {
+            this.animateDoor(30);
+            this._doorIsOpen = true;
+        }
+    }
+
+
+    /**
+     * Closes the door by rotating it 120 degrees counterclockwise.
+     */
+    closeDoor() {
+        if (this._door !== null) {
+            this.animateDoor(30);
+            this._doorIsOpen = false;
+        }
+    }
+
+
+    /**
+     * Opens the door if it is closed and closes it if it is open.
+     */
+    toggleDoor() {
+        (this._doorIsOpen) ? this.closeDoor() : this.openDoor();
+    }
+}
@@ -0,0 +1,556 @@
+import {
+    AbstractMesh,
+    IWebXRHitResult,
+    Matrix,
+    Observable,
+    Quaternion,
+    Vector3,
+    WebXRFeatureName,
+    WebXRFeaturesManager,
+    WebXRHitTest,
+    WebXRInputSource,
+} from '@babylonjs/core';
+
+import { XrFeature } from '../core/XrFeature';
+import { createRayFromController } from '../core/controllers';
+import { errorMessage } from '../core/Logger';
+import { SessionModes } from '../core/types';
+import { PlaneClass } from './PlaneClassifier';
+import { PlaneDetectionFeature } from './PlaneDetectionFeature';
+import { PlaneSnapping, snapToPlane, SnapTarget } from './PlaneSnapping';
+import { RaycastHitTest } from './RaycastHitTest';
+import { Reticle, ReticleOptions, ReticlePose } from './Reticle';
+
+export type HitTestFeatureArguments = {
+    /**
+     * Which hits the reticles are shown at and objects are placed on, all of them by default.
+     */
+    filter?: HitTestFilter;
+    /**
+     * What the reticles snap to on the detected plane that was hit, nothing by default.
+     */
+    snapping?: PlaneSnapping;
+    /**
+     * How the reticles follow the hits and fade, see `ReticleOptions`.
+     */
+    reticle?: ReticleOptions;
+}
+
+/**
+ * The conditions a hit has to meet, the nearest hit that meets all of them is used.
+ * The conditions about planes are only met by hits on a detected plane, see `PlaneDetectionFeature.getPlaneAt`.
+ */
+export type HitTestFilter = {
+    /**
+     * Only hits on planes of these classes, i.e. ["floor"] for floors only or ["wall"] for walls only.
+     */
+    planeClasses?: PlaneClass[];
+    /**
+     * Only hits on surfaces facing up or down ("horizontal") or sideways ("vertical"), told by the normal of the hit.
+     */
+    orientation?: "horizontal" | "vertical";
+    /**
+     * Only hits at least this high above the floor in meters, i.e. 0.3 with "horizontal" for tables but not the floor.
+     */
+    minHeight?: number;
+    /**
+     * Only hits on planes of at least this area in square meters.
+     */
+    minArea?: number;
+}
+
+/**
+ * A hit of the WebXR hit test or of the ray cast fallback, which has no WebXR hit test result, see `RaycastHitTest`.
+ */
+export type HitResult = Omit<IWebXRHitResult, 'xrHitResult'> & {
+    xrHitResult: XRHitTestResult | null;
+}
+
+/**
+ * A hit after filtering, with what its reticle snapped to.
+ */
+export type FilteredHitResult = HitResult & {
+    snappedTo: SnapTarget;
+}
+
+/**
+ * The hit test of a controller or a transient input, i.e. a touch on the screen of a phone, with a reticle of its own.
+ */
+type InputHitTest = {
+    /**
+     * The hit test source along the target ray of a controller, null for transient inputs and until it is granted.
+     */
+    source: XRHitTestSource | null;
+    reticle: Reticle;
+    result: FilteredHitResult | undefined;
+}
+
+/**
+ * The input profile of touch screens, the transient inputs of a phone.
+ */
+const transientProfile = 'generic-touchscreen';
+
+/**
+ * The y component of the normal of a horizontal surface is above this, of a vertical surface below 1 minus this.
+ */
+const horizontalNormal = 0.9;
+
+/**
+ * How far the rays of the ray cast fallback reach in meters.
+ */
+const raycastLength = 20;
+
+
+/**
+ * Shows a reticle where the WebXR hit test hits the real world.
+ * Every controller gets a hit test source along its target ray and a reticle of its own, as does every touch on
+ * the screen of a phone, see `getPlacementPose` to place objects where an input points at.
+ * The reticle of the viewer, which follows the head, is only shown while there are no controllers.
+ * The hits can be filtered, i.e. to floors only, and the reticles snapped to the edges and corners of the detected planes or to a grid,
+ * see `HitTestFeatureArguments`. The planes are only known if the `PlaneDetectionFeature` is composed as well.
+ * On runtimes without hit testing the hits are ray cast against the detected planes instead, see `usesRaycastFallback`.
+ */
+export class HitTestFeature extends XrFeature {
+    readonly name = 'hitTest';
+    readonly sessionModes: SessionModes[] = ["immersive-ar"];
+    _xrHitTest: WebXRHitTest | null;
+    _hitTest: FilteredHitResult | undefined;
+    _filter: HitTestFilter;
+    _snapping: PlaneSnapping;
+    _reticleOptions: ReticleOptions;
+    _reticle: Reticle | null;
+    _raycastHitTest: RaycastHitTest | null;
+    _inputHitTests: Map<WebXRInputSource, InputHitTest>;
+    _transientSource: XRTransientInputHitTestSource | null;
+    onInputHitTestResultObservable: Observable<{ controller: WebXRInputSource, results: HitResult[] }>;
+
+
+    constructor(args: HitTestFeatureArguments = {}) {
+        super();
+        this._xrHitTest = null;
+        this._hitTest = undefined;
+        this._filter = args.filter ?? {};
+        this._snapping = args.snapping ?? {};
+        this._reticleOptions = args.reticle ?? {};
+        this._reticle = null;
+        this._raycastHitTest = null;
+        this._inputHitTests = new Map();
+        this._transientSource = null;
+        this.onInputHitTestResultObservable = new Observable();
+    }
+
+
+    /**
+     * Enables hit testing, as an optional feature so the session also starts on runtimes without it.
+     * @param fm The features manager of the default xr experience.
+     */
+    addFeaturesToSession(fm: WebXRFeaturesManager) {
+        this._xrHitTest = this.enableXrFeature<WebXRHitTest>(fm, WebXRFeatureName.HIT_TEST, "latest", {}, false);
+    }
+
+
+    async createScene(): Promise<void> {
+        this._reticle = this.createReticle("reticle");
+        this.performHitTest();
+        this.performInputHitTests();
+        this.performRaycastHitTests();
+    }
+
+
+    /**
+     * Whether the hits are ray cast against the detected planes, either because hit testing could not be enabled
+     * or because the session started without it, see `isXrFeatureEnabled`.
+     */
+    usesRaycastFallback(): boolean {
+        return this._xrHitTest === null || !this.isXrFeatureEnabled(WebXRFeatureName.HIT_TEST);
+    }
+
+
+    /**
+     * Creates a hidden reticle in the colours of the theme, which is not picked by the rays of the controllers pointing at it.
+     * @param name The name of the mesh.
+     * @returns The reticle.
+     */
+    createReticle(name: string): Reticle {
+        return new Reticle(this._experience._scene, name, this._experience._theme, this._reticleOptions);
+    }
+
+
+    /**
+     * Whether a mesh is the reticle of the viewer or of an input.
+     * @param mesh The mesh.
+     */
+    isReticle(mesh: AbstractMesh): boolean {
+        return mesh === this._reticle?._mesh || [...this._inputHitTests.values()].some((hitTest) => hitTest.reticle._mesh === mesh);
+    }
+
+
+    /**
+     * Returns the latest hit of a controller or a transient input, filtered and snapped.
+     * @param controller The input source.
+     * @returns The hit, or undefined if the input points at nothing that passes the filter or has no hit test.
+     */
+    getHitTestResult(controller: WebXRInputSource): FilteredHitResult | undefined {
+        return this._inputHitTests.get(controller)?.result;
+    }
+
+
+    /**
+     * Returns where an object is placed that a controller or a transient input points at, or the viewer looks at.
+     * Unlike the hits, the pose of the reticle is smoothed, so objects are placed where the user sees the reticle.
+     * @param controller The input source, the viewer if it is not defined.
+     * @returns The pose, or null if the reticle is not on a surface that passes the filter.
+     */
+    getPlacementPose(controller?: WebXRInputSource): ReticlePose | null {
+        return this.getReticle(controller)?.getPlacementPose() ?? null;
+    }
+
+
+    /**
+     * Shows the reticle of an input or of the viewer in the "placing" state for a moment, call it when an object is placed.
+     * @param controller The input source, the viewer if it is not defined.
+     */
+    showPlacing(controller?: WebXRInputSource) {
+        this.getReticle(controller)?.place();
+    }
+
+
+    /**
+     * Returns the reticle of an input or of the viewer.
+     * @param controller The input source, the viewer if it is not defined.
+     */
+    getReticle(controller?: WebXRInputSource): Reticle | null {
+        return controller === undefined ? this._reticle : this._inputHitTests.get(controller)?.reticle ?? null;
+    }
+
+
+    /**
+     * Hides the reticle, there are no hit test results until the user enters XR again.
+     */
+    onSessionEnded(): void {
+        this._reticle?.reset();
+        this._hitTest = undefined;
+        [...this._inputHitTests.keys()].forEach((controller) => this.removeInputHitTest(controller));
+        this._transientSource?.cancel();
+        this._transientSource = null;
+    }
+
+
+    /**
+     * Performs a hit test.
+     */
+    performHitTest() {
+        if (this._xrHitTest === null || this._reticle === null) {
+            return;
+        }
+        this.observe(this._xrHitTest.onHitTestResultObservable, (results) => this.setHitTestResults(results));
+    }
+
+
+    /**
+     * Casts the rays of the viewer and of every input against the detected planes every frame, while the session has no hit testing.
+     */
+    performRaycastHitTests() {
+        const xr = this._experience._xr;
+
+        if (xr === null) {
+            return;
+        }
+
+        this._raycastHitTest = new RaycastHitTest(this._experience._scene, this._experience.getFeature(PlaneDetectionFeature));
+
+        this.observe(xr.baseExperience.sessionManager.onXRSessionInit, () => {
+            if (this.usesRaycastFallback()) {
+                this._experience._logger.info(this.name, 'Hit testing is not available, casting rays against the planes instead');
+            }
+        });
+
+        this.observe(xr.baseExperience.sessionManager.onXRFrameObservable, () => {
+            if (!this.usesRaycastFallback()) {
+                return;
+            }
+
+            this.setHitTestResults(this._raycastHitTest!.hitTest(xr.baseExperience.camera.getForwardRay(raycastLength)));
+            [...this._inputHitTests.keys()].forEach((controller) => {
+                this.setInputHitTestResults(controller, this._raycastHitTest!.hitTest(createRayFromController(controller, raycastLength), controller.inputSource));
+            });
+        });
+    }
+
+
+    /**
+     * Moves the reticle of the viewer towards its nearest hit.
+     * @param results The hits of the viewer, nearest first.
+     */
+    setHitTestResults(results: HitResult[]) {
+        this._hitTest = this.selectResult(results);
+        this.showReticle(this._reticle!, this._hitTest, results);
+    }
+
+
+    /**
+     * Requests a hit test source for every controller and for the transient inputs and reads their results every frame.
+     * With the ray cast fallback the inputs get a reticle but no source, see `performRaycastHitTests`.
+     */
+    performInputHitTests() {
+        const xr = this._experience._xr;
+
+        if (xr === null) {
+            return;
+        }
+
+        const sessionManager = xr.baseExperience.sessionManager;
+
+        this.observe(sessionManager.onXRSessionInit, (session) => {
+            if (this.usesRaycastFallback()) {
+                return;
+            }
+
+            session.requestHitTestSourceForTransientInput?.({ profile: transientProfile })
+                .then((source) => {
+                    this._transientSource = source;
+                })
+                .catch((error) => this._experience._logger.warn(this.name, `No hit test for transient inputs: ${errorMessage(error)}`));
+        });
+
+        this.observe(xr.input.onControllerAddedObservable, (controller) => this.addInputHitTest(controller));
+        this.observe(xr.input.onControllerRemovedObservable, (controller) => this.removeInputHitTest(controller));
+
+        this.observe(sessionManager.onXRFrameObservable, (frame) => {
+            this._inputHitTests.forEach((hitTest, controller) => {
+                if (hitTest.source !== null) {
+                    this.updateInputHitTest(controller, frame.getHitTestResults(hitTest.source));
+                }
+            });
+
+            if (this._transientSource !== null) {
+                frame.getHitTestResultsForTransientInput(this._transientSource).forEach(({ inputSource, results }) => {
+                    const controller = [...this._inputHitTests.keys()].find((input) => input.inputSource === inputSource);
+
+                    if (controller !== undefined) {
+                        this.updateInputHitTest(controller, results);
+                    }
+                });
+            }
+        });
+    }
+
+
+    /**
+     * Adds the reticle of an input and requests a hit test source along the target ray of a controller.
+     * Transient inputs share the source of the session, with the ray cast fallback there are no sources.
+     * @param controller The input source.
+     */
+    addInputHitTest(controller: WebXRInputSource) {
+        const hitTest: InputHitTest = { source: null, reticle: this.createReticle(`reticle-${controller.uniqueId}`), result: undefined };
+        const session = this._experience._xr!.baseExperience.sessionManager.session;
+
+        this._inputHitTests.set(controller, hitTest);
+        this._reticle?.setEnabled(false);
+
+        if (controller.inputSource.targetRayMode !== 'tracked-pointer' || this.usesRaycastFallback() || !session.requestHitTestSource) {
+            return;
+        }
+
+        session.requestHitTestSource({ space: controller.inputSource.targetRaySpace }).then((source) => {
+            if (this._inputHitTests.get(controller) === hitTest) {
+                hitTest.source = source;
+            } else {
+                // The controller was removed in the meantime
+                source.cancel();
+            }
+        }).catch((error) => {
+            this._experience._logger.warn(this.name, `No hit test for ${controller.uniqueId}: ${errorMessage(error)}`);
+        });
+    }
+
+
+    /**
+     * Removes the reticle and cancels the hit test source of an input.
+     * @param controller The input source.
+     */
+    removeInputHitTest(controller: WebXRInputSource) {
+        const hitTest = this._inputHitTests.get(controller);
+
+        if (hitTest === undefined) {
+            return;
+        }
+
+        hitTest.source?.cancel();
+        hitTest.reticle.dispose();
+        this._inputHitTests.delete(controller);
+        this._reticle?.setEnabled(this._inputHitTests.size === 0);
+    }
+
+
+    /**
+     * Moves the reticle of an input towards its nearest hit.
+     * @param controller The input source.
+     * @param xrResults The results of its hit test source, nearest first.
+     */
+    updateInputHitTest(controller: WebXRInputSource, xrResults: readonly XRHitTestResult[]) {
+        const results = xrResults.map((xrResult) => this.toHitResult(xrResult, controller.inputSource))
+            .filter((result): result is HitResult => result !== null);
+
+        this.setInputHitTestResults(controller, results);
+    }
+
+
+    /**
+     * Sets the hits of an input, i.e. when the hit tests of a recorded session are replayed.
+     * @param controller The input source.
+     * @param results The hits, nearest first.
+     */
+    setInputHitTestResults(controller: WebXRInputSource, results: HitResult[]) {
+        const hitTest = this._inputHitTests.get(controller);
+
+        if (hitTest === undefined) {
+            return;
+        }
+
+        hitTest.result = this.selectResult(results);
+        this.showReticle(hitTest.reticle, hitTest.result, results);
+        this.onInputHitTestResultObservable.notifyObservers({ controller, results });
+    }
+
+
+    /**
+     * Changes which hits are used, from the next results on.
+     * @param filter The conditions, an empty filter passes all hits.
+     */
+    setFilter(filter: HitTestFilter) {
+        this._filter = filter;
+    }
+
+
+    /**
+     * Changes what the reticles snap to, from the next results on.
+     * @param snapping What the reticles snap to, nothing if it is empty.
+     */
+    setSnapping(snapping: PlaneSnapping) {
+        this._snapping = snapping;
+    }
+
+
+    /**
+     * Picks the nearest hit that passes the filter and snaps it to the plane it lies on.
+     * @param results The hits, nearest first.
+     * @returns The hit, or undefined if none passes the filter.
+     */
+    selectResult(results: HitResult[]): FilteredHitResult | undefined {
+        const planes = this._experience.getFeature(PlaneDetectionFeature);
+        const needsPlane = this._filter.planeClasses !== undefined || this._filter.minArea !== undefined || Object.keys(this._snapping).length > 0;
+
+        for (const result of results) {
+            const normal = Vector3.Up().applyRotationQuaternion(result.rotationQuaternion);
+            const plane = needsPlane ? planes?.getPlaneAt(result.position, normal) ?? null : null;
+
+            if (!this.matchesFilter(result, normal, plane)) {
+                continue;
+            }
+
+            const outline = plane && planes!.getPlaneOutline(plane);
+
+            if (!outline) {
+                return { ...result, snappedTo: null };
+            }
+
+            const { position, target } = snapToPlane(result.position, outline.polygon, outline.transformation, this._snapping);
+
+            return {
+                ...result,
+                position,
+                transformationMatrix: Matrix.Compose(Vector3.One(), result.rotationQuaternion, position),
+                snappedTo: target,
+            };
+        }
+
+        return undefined;
+    }
+
+
+    /**
+     * Whether a hit meets all conditions of the filter.
+     * @param result The hit.
+     * @param normal The normal of the surface that was hit.
+     * @param plane The detected plane the hit lies on, if any.
+     */
+    matchesFilter(result: HitResult, normal: Vector3, plane: AbstractMesh | null): boolean {
+        const planes = this._experience.getFeature(PlaneDetectionFeature);
+        const metadata = plane && planes?.getPlaneMetadata(plane);
+        const { planeClasses, orientation, minHeight, minArea } = this._filter;
+
+        if (orientation === "horizontal" && Math.abs(normal.y) < horizontalNormal) {
+            return false;
+        }
+
+        if (orientation === "vertical" && Math.abs(normal.y) > 1 - horizontalNormal) {
+            return false;
+        }
+
+        if (minHeight !== undefined && result.position.y - (planes?.getFloorHeight() ?? 0) < minHeight) {
+            return false;
+        }
+
+        if (planeClasses !== undefined && (!metadata || !planeClasses.includes(metadata.planeClass))) {
+            return false;
+        }
+        return minArea === undefined || (!!metadata && metadata.area >= minArea);
+    }
+
+
+    /**
+     * Converts a WebXR hit test result to the coordinate system of the scene, like the WebXR hit test feature does.
+     * @param xrResult The result.
+     * @param inputSource The input source the result belongs to.
+     * @returns The hit, or null if it has no pose in the reference space.
+     */
+    toHitResult(xrResult: XRHitTestResult, inputSource: XRInputSource): HitResult | null {
+        const sessionManager = this._experience._xr!.baseExperience.sessionManager;
+        const pose = xrResult.getPose(sessionManager.referenceSpace);
+
+        if (!pose) {
+            return null;
+        }
+
+        const { position, orientation, matrix } = pose.transform;
+        const result: HitResult = {
+            position: new Vector3(position.x, position.y, position.z),
+            rotationQuaternion: new Quaternion(orientation.x, orientation.y, orientation.z, orientation.w),
+            transformationMatrix: Matrix.FromArray(matrix),
+            inputSource,
+            isTransient: inputSource.targetRayMode !== 'tracked-pointer',
+            xrHitResult: xrResult,
+        };
+
+        if (!this._experience._scene.useRightHandedSystem) {
+            result.position.z *= -1;
+            result.rotationQuaternion.z *= -1;
+            result.rotationQuaternion.w *= -1;
+            result.transformationMatrix.toggleModelMatrixHandInPlace();
+        }
+
+        return result;
+    }
+
+
+    /**
+     * Moves a reticle towards the hit that passed the filter, or shows it as invalid at the nearest hit if none did.
+     * @param reticle The reticle.
+     * @param result The hit that passed the filter.
+     * @param results All hits, nearest first.
+     */
+    showReticle(reticle: Reticle, result: FilteredHitResult | undefined, results: HitResult[]) {
+        if (result !== undefined) {
+            reticle.update(result);
+        } else {
+            reticle.update(results[0], false);
+        }
+    }
+
+
+    dispose(): void {
+        this.onInputHitTestResultObservable.clear();
+        super.dispose();
+    }
+}
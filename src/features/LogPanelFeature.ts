@@ -0,0 +1,163 @@
+import {
+    Color3,
+    DynamicTexture,
+    Mesh,
+    MeshBuilder,
+    StandardMaterial,
+    Vector3,
+} from '@babylonjs/core';
+
+import { XrFeature } from '../core/XrFeature';
+import { LogEntry, LogLevel } from '../core/Logger';
+
+export type LogPanelFeatureArguments = {
+    /**
+     * The number of entries shown.
+     */
+    lines?: number;
+    /**
+     * The lowest level shown, warnings by default.
+     */
+    minLevel?: LogLevel;
+}
+
+/**
+ * Shows the recent warnings and errors of the logger on a panel in front of the user,
+ * as the console is not visible inside the headset. The panel is toggled with the "menu" action,
+ * the B/Y button of a Quest controller by default.
+ */
+export class LogPanelFeature extends XrFeature {
+    readonly name = 'logPanel';
+    _lines: number;
+    _minLevel: LogLevel;
+    _panel: Mesh | null;
+    _texture: DynamicTexture | null;
+
+
+    constructor(args: LogPanelFeatureArguments = {}) {
+        super();
+        this._lines = args.lines ?? 12;
+        this._minLevel = args.minLevel ?? LogLevel.Warn;
+        this._panel = null;
+        this._texture = null;
+    }
+
+
+    async createScene(): Promise<void> {
+        this.observe(this._experience._logger.onEntryAddedObservable, (entry: LogEntry) => {
+            if (entry.level >= this._minLevel && this.isVisible()) {
+                this.drawEntries();
+            }
+        });
+        this.handleToggleButton();
+    }
+
+
+    /**
+     * Toggles the panel when the menu button of any controller is pressed.
+     */
+    handleToggleButton() {
+        this.observe(this._experience._inputActions.getObservable("menu"), ({ pressed }) => {
+            if (pressed) {
+                this.toggle();
+            }
+        });
+    }
+
+
+    isVisible(): boolean {
+        return this._panel !== null && this._panel.isEnabled();
+    }
+
+
+    /**
+     * Shows the panel in front of the user or hides it.
+     */
+    toggle() {
+        if (this._panel === null) {
+            this.createPanel();
+        } else {
+            this._panel.setEnabled(!this._panel.isEnabled());
+        }
+
+        if (this.isVisible()) {
+            this.placeInFrontOfCamera();
+            this.drawEntries();
+        }
+    }
+
+
+    /**
+     * Creates the panel, a plane facing the user with a dynamic texture the entries are drawn on.
+     */
+    createPanel() {
+        const scene = this._experience._scene;
+        const material = new StandardMaterial("logPanelMaterial", scene);
+
+        this._texture = new DynamicTexture("logPanelTexture", { width: 1024, height: 512 }, scene, false);
+
+        material.diffuseTexture = this._texture;
+        material.emissiveColor = Color3.White();
+        material.disableLighting = true;
+
+        this._panel = MeshBuilder.CreatePlane("logPanel", { width: 0.8, height: 0.4 }, scene);
+        this._panel.material = material;
+        this._panel.billboardMode = Mesh.BILLBOARDMODE_ALL;
+        this._panel.isPickable = false;
+        // Drawn on top, so the panel is readable even if it intersects with a plane
+        this._panel.renderingGroupId = 1;
+    }
+
+
+    /**
+     * Moves the panel one meter in front of the active camera.
+     */
+    placeInFrontOfCamera() {
+        const camera = this._experience._scene.activeCamera;
+
+        if (camera === null || this._panel === null) {
+            return;
+        }
+
+        this._panel.position = camera.globalPosition.add(camera.getDirection(Vector3.Forward()).scale(1));
+    }
+
+
+    /**
+     * Draws the most recent entries, errors in red and warnings in yellow.
+     */
+    drawEntries() {
+        if (this._texture === null) {
+            return;
+        }
+
+        const context = this._texture.getContext();
+        const size = this._texture.getSize();
+        const entries = this._experience._logger.getEntries(this._minLevel).slice(-this._lines);
+        const lineHeight = size.height / (this._lines + 1);
+        const colors = {
+            [LogLevel.Debug]: "#aaaaaa",
+            [LogLevel.Info]: "#ffffff",
+            [LogLevel.Warn]: "#ffd54f",
+            [LogLevel.Error]: "#ff6e6e",
+        };
+
+        context.fillStyle = "rgba(0, 0, 0, 0.8)";
+        context.fillRect(0, 0, size.width, size.height);
+        context.font = `${Math.floor(lineHeight * 0.7)}px monospace`;
+
+        if (entries.length === 0) {
+            context.fillStyle = colors[LogLevel.Info];
+            context.fillText("No warnings or errors", 16, lineHeight);
+        }
+
+        entries.forEach((entry, index) => {
+            const text = `${(entry.time / 1000).toFixed(1)}s [${entry.category}] ${entry.message}`;
+
+            context.fillStyle = colors[entry.level];
+            context.fillText(text.length > 72 ? text.slice(0, 71) + "…" : text, 16, lineHeight * (index + 1));
+        });
+
+        this._texture.update();
+    }
+}
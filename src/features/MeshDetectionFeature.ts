@@ -0,0 +1,249 @@
+import {
+    AbstractMesh,
+    IWebXRVertexData,
+    Mesh,
+    PickingInfo,
+    Quaternion,
+    VertexData,
+    WebXRFeatureName,
+    WebXRFeaturesManager,
+    WebXRMeshDetector,
+} from '@babylonjs/core';
+
+import { XrFeature } from '../core/XrFeature';
+import { PlaneVisualization, SessionModes } from '../core/types';
+import { PlaneClass, PlaneClassifier } from './PlaneClassifier';
+import { PlaneDetectionFeature } from './PlaneDetectionFeature';
+import { PlaneVisualizer } from './PlaneVisualizer';
+
+/**
+ * What is known about a detected mesh, stored as `metadata` of its mesh.
+ * The id of the mesh is stored as `planeId`, so the mesh is drawn by the `PlaneVisualizer` like a plane.
+ */
+export type MeshMetadata = {
+    planeId: number;
+    planeClass: PlaneClass;
+    /**
+     * The label the runtime assigned to the mesh, i.e. "table" or "global mesh" on a Quest.
+     */
+    semanticLabel?: string;
+}
+
+/**
+ * Renders the meshes detected by the WebXR mesh detection feature, i.e. the room mesh and the furniture of a Quest 3.
+ * The meshes are drawn like the planes, see the `planeVisualization` argument of the experience, and are pickable.
+ * Mesh detection is optional: if the runtime does not detect meshes, the plane meshes of the `PlaneDetectionFeature`
+ * stand in for them, see `getRoomMeshes`.
+ * Must be composed after the `PlaneDetectionFeature` to fall back to its planes.
+ */
+export class MeshDetectionFeature extends XrFeature {
+    readonly name = 'meshes';
+    readonly sessionModes: SessionModes[] = ["immersive-ar"];
+    _xrMeshes: WebXRMeshDetector | null;
+    // The meshes by the id of the detected mesh
+    _meshes: Map<number, Mesh>;
+    _visualizer: PlaneVisualizer | null;
+
+
+    constructor() {
+        super();
+        this._xrMeshes = null;
+        this._meshes = new Map();
+        this._visualizer = null;
+    }
+
+
+    /**
+     * Enables mesh detection, the session starts without it if the runtime does not detect meshes.
+     * @param fm The features manager of the default xr experience.
+     */
+    addFeaturesToSession(fm: WebXRFeaturesManager) {
+        this._xrMeshes = this.enableXrFeature<WebXRMeshDetector>(fm, WebXRFeatureName.MESH_DETECTION, "latest", { convertCoordinateSystems: true }, false);
+    }
+
+
+    async createScene(): Promise<void> {
+        this._visualizer = new PlaneVisualizer(this._experience._scene, this._experience._planeVisualization, this._experience._theme, this._experience._random);
+        this.createMeshesFromXrMeshes();
+    }
+
+
+    /**
+     * Creates, updates and removes the meshes as the runtime detects them.
+     */
+    createMeshesFromXrMeshes() {
+        if (this._xrMeshes === null) {
+            this._experience._logger.info(this.name, 'mesh detection is not available, falling back to planes');
+            return;
+        }
+
+        this.observe(this._xrMeshes.onMeshAddedObservable, (vertexData) => {
+            this._experience._logger.debug(this.name, "mesh added", vertexData);
+            this.updateMesh(vertexData);
+        });
+
+        this.observe(this._xrMeshes.onMeshUpdatedObservable, (vertexData) => this.updateMesh(vertexData));
+
+        this.observe(this._xrMeshes.onMeshRemovedObservable, (vertexData) => {
+            this._meshes.get(vertexData.id)?.dispose();
+            this._meshes.delete(vertexData.id);
+            this._visualizer?.removePlane(vertexData.id);
+        });
+    }
+
+
+    /**
+     * Creates the mesh of a detected mesh or replaces its vertices and pose.
+     * @param vertexData The detected mesh, with its vertices converted to the coordinate system of the scene.
+     */
+    updateMesh(vertexData: IWebXRVertexData) {
+        if (!vertexData.positions || !vertexData.indices || !vertexData.transformationMatrix) {
+            return;
+        }
+
+        let mesh = this._meshes.get(vertexData.id);
+
+        if (mesh === undefined) {
+            mesh = new Mesh("detectedMesh" + vertexData.id, this._experience._scene);
+            mesh.rotationQuaternion = new Quaternion();
+            mesh.checkCollisions = true;
+            mesh.receiveShadows = true;
+            this._meshes.set(vertexData.id, mesh);
+        }
+
+        const data = new VertexData();
+
+        data.positions = vertexData.positions;
+        data.indices = vertexData.indices;
+
+        if (vertexData.normals) {
+            data.normals = vertexData.normals;
+        } else {
+            data.normals = [];
+            VertexData.ComputeNormals(data.positions, data.indices, data.normals);
+        }
+
+        // The number of vertices changes with almost every update, so the buffers are recreated
+        data.applyToMesh(mesh, true);
+        vertexData.transformationMatrix.decompose(mesh.scaling, mesh.rotationQuaternion!, mesh.position);
+
+        const semanticLabel = (vertexData.xrMesh as XRMesh & { semanticLabel?: string }).semanticLabel;
+
+        mesh.metadata = {
+            planeId: vertexData.id,
+            planeClass: semanticLabel ? PlaneClassifier.classifyLabel(semanticLabel) : "other",
+            semanticLabel,
+        } satisfies MeshMetadata;
+        this._visualizer?.apply(mesh);
+    }
+
+
+    /**
+     * Returns the meshes of the room to pick or to place objects on: the detected meshes,
+     * or the plane meshes if the runtime does not detect meshes or has not detected any yet.
+     * @returns The meshes.
+     */
+    getRoomMeshes(): Mesh[] {
+        if (!this.isFallingBack()) {
+            return [...this._meshes.values()];
+        }
+        return this._experience.getFeature(PlaneDetectionFeature)?.getPlaneMeshes().filter((mesh) => mesh.isPickable) ?? [];
+    }
+
+
+    /**
+     * Whether the plane meshes stand in for the detected meshes: the session has no mesh detection,
+     * or the runtime has not detected any meshes yet.
+     */
+    isFallingBack(): boolean {
+        return this._xrMeshes === null || !this.isXrFeatureEnabled(WebXRFeatureName.MESH_DETECTION) || this._meshes.size === 0;
+    }
+
+
+    /**
+     * Whether a mesh is one of the room meshes, i.e. a picked mesh.
+     * @param mesh The mesh.
+     */
+    isRoomMesh(mesh: AbstractMesh): boolean {
+        return this.getRoomMeshes().includes(mesh as Mesh);
+    }
+
+
+    /**
+     * Returns what is known about a detected mesh.
+     * @param mesh The mesh, i.e. a picked mesh.
+     * @returns The metadata of the mesh, or null if the mesh is not a detected mesh.
+     */
+    getMeshMetadata(mesh: AbstractMesh): MeshMetadata | null {
+        return [...this._meshes.values()].includes(mesh as Mesh) ? mesh.metadata as MeshMetadata : null;
+    }
+
+
+    /**
+     * Returns the class of the room mesh a ray hit, i.e. to place objects on the floor only.
+     * A detected mesh without a class of its own, like the room mesh of a Quest, is classified by the face that was hit:
+     * facing up at the height of the floor is "floor", facing sideways is "wall".
+     * @param hit The picking info, i.e. of a ray from a controller.
+     * @returns The class, or null if the hit is not on a plane or a detected mesh.
+     */
+    classifyHit(hit: PickingInfo): PlaneClass | null {
+        const mesh = hit.pickedMesh;
+        const planes = this._experience.getFeature(PlaneDetectionFeature);
+
+        if (!hit.hit || !mesh) {
+            return null;
+        }
+
+        const planeClass = planes?.getPlaneClass(mesh) ?? null;
+        const metadata = this.getMeshMetadata(mesh);
+
+        if (planeClass !== null || metadata === null) {
+            return planeClass;
+        }
+
+        const normal = hit.getNormal(true);
+
+        if (metadata.planeClass !== "other" || normal === null || hit.pickedPoint === null) {
+            return metadata.planeClass;
+        }
+
+        if (normal.y > 0.95 && Math.abs(hit.pickedPoint.y - (planes?.getFloorHeight() ?? 0)) < 0.15) {
+            return "floor";
+        }
+        return Math.abs(normal.y) < 0.2 ? "wall" : "other";
+    }
+
+
+    /**
+     * Switches how the meshes are drawn, along with `PlaneDetectionFeature.setVisualization`.
+     * @param mode The visualization.
+     */
+    setVisualization(mode: PlaneVisualization) {
+        if (this._visualizer === null) {
+            return;
+        }
+
+        this._visualizer.setMode(mode);
+        this._meshes.forEach((mesh) => this._visualizer!.apply(mesh));
+    }
+
+
+    /**
+     * Mesh detection is optional, the session may have started without it.
+     */
+    onSessionStarted(): void {
+        if (this._xrMeshes !== null && !this.isXrFeatureEnabled(WebXRFeatureName.MESH_DETECTION)) {
+            this._experience._logger.info(this.name, 'mesh detection is not available, falling back to planes');
+        }
+    }
+
+
+    /**
+     * Removes the meshes, they are detected again when the user enters XR again.
+     */
+    onSessionEnded(): void {
+        this._meshes.forEach((mesh) => mesh.dispose());
+        this._meshes.clear();
+        this._visualizer?.reset();
+    }
+}
@@ -0,0 +1,393 @@
+import {
+    AbstractMesh,
+    HavokPlugin,
+    PhysicsAggregate,
+    PhysicsMotionType,
+    PhysicsShapeType,
+    Quaternion,
+    Vector3,
+    WebXRInputSource,
+} from '@babylonjs/core';
+
+import { XrFeature } from '../core/XrFeature';
+import { createRayFromController } from '../core/controllers';
+import { errorMessage } from '../core/Logger';
+import { BoxFeature } from './BoxFeature';
+import { PlaneDetectionFeature } from './PlaneDetectionFeature';
+
+export type PhysicsFeatureArguments = {
+    gravity?: Vector3;
+    /**
+     * How far away a controller can grab an object, in meters. Defaults to 5.
+     */
+    reach?: number;
+}
+
+/**
+ * A dynamic body and where it started, to put it back when it falls out of the room.
+ */
+type DynamicBody = {
+    aggregate: PhysicsAggregate;
+    position: Vector3;
+    rotation: Quaternion;
+}
+
+/**
+ * An object held by a controller, with its last poses to derive the velocity it is thrown with.
+ */
+type Grab = {
+    mesh: AbstractMesh;
+    samples: { position: Vector3, rotation: Quaternion, time: number }[];
+}
+
+/**
+ * The number of poses the throwing velocity is averaged over.
+ */
+const velocitySamples = 5;
+
+/**
+ * A body that falls this far below the floor, in meters, is put back where it started.
+ */
+const fallDistance = 10;
+
+
+/**
+ * Simulates physics with the Havok plugin, which is bundled and loaded along with the module.
+ * The plane meshes that collide, see `checkCollisions`, become static colliders that follow the detected planes,
+ * as does the ground of the virtual environment. The box of the `BoxFeature` and every mesh added with
+ * `addDynamicBody` become dynamic bodies: they fall, can be grabbed with the squeeze button of a controller
+ * and are thrown with the velocity they had when released, until they come to rest on a real table or floor.
+ * The simulation is paused until there is a floor to land on.
+ * Must be composed after the `PlaneDetectionFeature` and the `BoxFeature`.
+ */
+export class PhysicsFeature extends XrFeature {
+    readonly name = 'physics';
+    _gravity: Vector3;
+    _reach: number;
+    _plugin: HavokPlugin | null;
+    // The static colliders by mesh, null while the mesh does not collide
+    _colliders: Map<AbstractMesh, PhysicsAggregate | null>;
+    _bodies: Map<AbstractMesh, DynamicBody>;
+    _grabs: Map<WebXRInputSource, Grab>;
+
+
+    constructor(args: PhysicsFeatureArguments = {}) {
+        super();
+        this._gravity = args.gravity ?? new Vector3(0, -9.81, 0);
+        this._reach = args.reach ?? 5;
+        this._plugin = null;
+        this._colliders = new Map();
+        this._bodies = new Map();
+        this._grabs = new Map();
+    }
+
+
+    async createScene(): Promise<void> {
+        const scene = this._experience._scene;
+
+        try {
+            // A chunk of its own, the engine is only loaded by the parts that simulate physics
+            const { default: HavokPhysics } = await import('@babylonjs/havok');
+
+            this._plugin = new HavokPlugin(true, await HavokPhysics());
+        } catch (error) {
+            this._experience._logger.error(this.name, `Unable to load the physics engine: ${errorMessage(error)}`, error);
+            return;
+        }
+
+        scene.enablePhysics(this._gravity, this._plugin);
+
+        const ground = this._experience._ground;
+        const planes = this._experience.getFeature(PlaneDetectionFeature);
+
+        if (ground !== null) {
+            ground.checkCollisions = true;
+            this.updateCollider(ground);
+        }
+
+        if (planes !== null) {
+            planes.getPlaneMeshes().forEach((mesh) => this.updateCollider(mesh));
+            this.observe(planes.onPlaneMeshChangedObservable, (mesh) => this.updateCollider(mesh));
+        }
+
+        const box = this._experience.getFeature(BoxFeature)?._box;
+
+        if (box) {
+            this.addDynamicBody(box);
+        }
+
+        this.updateSimulation();
+        this.observe(scene.onBeforeRenderObservable, () => this.onBeforeRender());
+        this.handleControllerGrabs();
+    }
+
+
+    /**
+     * Creates, recreates or removes the static collider of a mesh, i.e. when a plane changed.
+     * @param mesh The mesh, it collides if `checkCollisions` is set.
+     */
+    updateCollider(mesh: AbstractMesh) {
+        if (!this._colliders.has(mesh)) {
+            mesh.onDisposeObservable.addOnce(() => {
+                // The body is disposed along with the mesh
+                this._colliders.delete(mesh);
+                this.updateSimulation();
+            });
+        }
+
+        this._colliders.get(mesh)?.dispose();
+        this._colliders.set(mesh, null);
+
+        if (!mesh.isDisposed() && mesh.checkCollisions) {
+            this._colliders.set(mesh, new PhysicsAggregate(mesh, PhysicsShapeType.MESH, { mass: 0, friction: 0.8, restitution: 0.2 }, this._experience._scene));
+        }
+        this.updateSimulation();
+    }
+
+
+    /**
+     * Adds a dynamic body, which falls, collides with the room and can be grabbed and thrown.
+     * Features that place the mesh afterwards call `placeBody`, the body would move it back otherwise.
+     * The body moves the mesh from now on, so the animations of the mesh are stopped.
+     * @param mesh The mesh.
+     * @param shapeType The shape of the body, a box around the mesh by default.
+     * @param mass The mass in kilograms.
+     * @returns The physics aggregate of the body.
+     */
+    addDynamicBody(mesh: AbstractMesh, shapeType = PhysicsShapeType.BOX, mass = 1): PhysicsAggregate {
+        const aggregate = new PhysicsAggregate(mesh, shapeType, { mass, friction: 0.8, restitution: 0.2 }, this._experience._scene);
+
+        this._experience._scene.stopAnimation(mesh);
+        mesh.computeWorldMatrix(true);
+        this._bodies.set(mesh, {
+            aggregate,
+            position: mesh.absolutePosition.clone(),
+            rotation: mesh.absoluteRotationQuaternion.clone(),
+        });
+        mesh.onDisposeObservable.addOnce(() => this._bodies.delete(mesh));
+
+        return aggregate;
+    }
+
+
+    /**
+     * Moves a body to where another feature placed its mesh, i.e. on an anchor, and stops it.
+     * It is put back there instead of where it started when it falls out of the room.
+     * @param mesh The mesh of the body.
+     */
+    placeBody(mesh: AbstractMesh) {
+        const body = this._bodies.get(mesh);
+
+        if (body === undefined) {
+            return;
+        }
+
+        mesh.computeWorldMatrix(true);
+        body.position = mesh.absolutePosition.clone();
+        body.rotation = mesh.absoluteRotationQuaternion.clone();
+        this.syncBody(mesh);
+    }
+
+
+    /**
+     * Moves a body to where its mesh is and stops it.
+     * @param mesh The mesh of the body.
+     */
+    syncBody(mesh: AbstractMesh) {
+        const body = this._bodies.get(mesh)?.aggregate.body;
+
+        if (body === undefined || this._plugin === null) {
+            return;
+        }
+
+        mesh.computeWorldMatrix(true);
+        this._plugin.setPhysicsBodyTransformation(body, mesh);
+        body.setLinearVelocity(Vector3.Zero());
+        body.setAngularVelocity(Vector3.Zero());
+    }
+
+
+    /**
+     * Runs the simulation only if there is a floor to land on, so the bodies don't fall through the room
+     * before the floor is detected.
+     */
+    updateSimulation() {
+        const scene = this._experience._scene;
+        const planes = this._experience.getFeature(PlaneDetectionFeature);
+        const hasFloor = [...this._colliders].some(([mesh, collider]) => collider !== null
+            && (mesh === this._experience._ground || planes?.getPlaneClass(mesh) === "floor"));
+
+        if (this._plugin === null || scene.physicsEnabled === hasFloor) {
+            return;
+        }
+
+        scene.physicsEnabled = hasFloor;
+        this._experience._logger.debug(this.name, hasFloor ? 'simulating' : 'paused until a floor is detected');
+    }
+
+
+    /**
+     * Records the poses of the grabbed objects and puts back the bodies that fell out of the room.
+     */
+    onBeforeRender() {
+        const time = performance.now() / 1000;
+
+        this._grabs.forEach((grab) => {
+            grab.mesh.computeWorldMatrix(true);
+            grab.samples.push({ position: grab.mesh.absolutePosition.clone(), rotation: grab.mesh.absoluteRotationQuaternion.clone(), time });
+
+            if (grab.samples.length > velocitySamples) {
+                grab.samples.shift();
+            }
+        });
+
+        const floorHeight = this._experience.getFeature(PlaneDetectionFeature)?.getFloorHeight() ?? 0;
+
+        this._bodies.forEach((body, mesh) => {
+            if (mesh.absolutePosition.y < floorHeight - fallDistance) {
+                this._experience._logger.debug(this.name, `${mesh.name} fell out of the room`);
+                mesh.setParent(null);
+                mesh.position.copyFrom(body.position);
+                mesh.rotationQuaternion = body.rotation.clone();
+                this.syncBody(mesh);
+            }
+        });
+    }
+
+
+    /**
+     * Grabs an object with the "grab" action of a controller, the squeeze button by default, and throws it when the button is released.
+     */
+    handleControllerGrabs() {
+        const xr = this._experience._xr;
+
+        if (xr === null) {
+            return;
+        }
+
+        this.observe(this._experience._inputActions.getObservable("grab"), ({ controller, pressed }) => {
+            if (pressed && !this._grabs.has(controller)) {
+                this.grab(controller);
+            } else if (!pressed) {
+                this.release(controller);
+            }
+        });
+
+        this.observe(xr.input.onControllerRemovedObservable, (controller) => this.release(controller));
+    }
+
+
+    /**
+     * Attaches the dynamic body the controller points at to the controller, it follows the controller until released.
+     * @param controller The controller.
+     * @returns Whether a body was grabbed.
+     */
+    grab(controller: WebXRInputSource): boolean {
+        const hit = this._experience._scene.pickWithRay(createRayFromController(controller, this._reach), (mesh) => this._bodies.has(mesh));
+        const mesh = hit?.pickedMesh;
+
+        if (!mesh) {
+            return false;
+        }
+
+        // Taken from the other hand
+        this._grabs.forEach((grab, other) => {
+            if (grab.mesh === mesh) {
+                this.release(other, false);
+            }
+        });
+
+        const body = this._bodies.get(mesh)!.aggregate.body;
+
+        // Moved by the controller, pushing the dynamic bodies in its way
+        body.setMotionType(PhysicsMotionType.ANIMATED);
+        body.disablePreStep = false;
+        mesh.setParent(controller.grip ?? controller.pointer);
+        this._grabs.set(controller, { mesh, samples: [] });
+        this._experience._logger.debug(this.name, `grabbed ${mesh.name}`);
+
+        return true;
+    }
+
+
+    /**
+     * Releases the object held by a controller, it keeps the velocity it had.
+     * @param controller The controller.
+     * @param throwBody Whether the body is thrown, otherwise it is dropped.
+     */
+    release(controller: WebXRInputSource, throwBody = true) {
+        const grab = this._grabs.get(controller);
+
+        if (grab === undefined) {
+            return;
+        }
+
+        this._grabs.delete(controller);
+
+        const body = this._bodies.get(grab.mesh)?.aggregate.body;
+
+        grab.mesh.setParent(null);
+
+        if (body === undefined) {
+            return;
+        }
+
+        body.disablePreStep = true;
+        body.setMotionType(PhysicsMotionType.DYNAMIC);
+        this.syncBody(grab.mesh);
+
+        if (throwBody) {
+            const { linear, angular } = getVelocity(grab.samples);
+
+            body.setLinearVelocity(linear);
+            body.setAngularVelocity(angular);
+            this._experience._logger.debug(this.name, `threw ${grab.mesh.name} at ${linear.length().toFixed(2)} m/s`);
+        }
+    }
+
+
+    /**
+     * Drops the held objects and stops all bodies where they are, i.e. where the `BoxFeature` put the box back.
+     */
+    onSessionEnded(): void {
+        this._grabs.forEach((grab, controller) => this.release(controller, false));
+        this._bodies.forEach((body, mesh) => this.placeBody(mesh));
+    }
+
+
+    dispose(): void {
+        this._grabs.forEach((grab, controller) => this.release(controller, false));
+        super.dispose();
+    }
+}
+
+
+/**
+ * Derives the linear and angular velocity from the first and the last of a series of poses.
+ * @param samples The poses, oldest first.
+ * @returns The velocities, zero if there are less than two poses.
+ */
+function getVelocity(samples: Grab["samples"]): { linear: Vector3, angular: Vector3 } {
+    const first = samples[0];
+    const last = samples[samples.length - 1];
+
+    if (samples.length < 2 || last.time <= first.time) {
+        return { linear: Vector3.Zero(), angular: Vector3.Zero() };
+    }
+
+    const duration = last.time - first.time;
+    const linear = last.position.subtract(first.position).scale(1 / duration);
+    // The rotation from the first to the last pose, the shorter way round
+    const delta = last.rotation.multiply(Quaternion.Inverse(first.rotation));
+
+    if (delta.w < 0) {
+        delta.scaleInPlace(-1);
+    }
+
+    const angle = 2 * Math.acos(Math.min(delta.w, 1));
+    const axis = new Vector3(delta.x, delta.y, delta.z);
+    const angular = axis.lengthSquared() > 0 ? axis.normalize().scale(angle / duration) : Vector3.Zero();
+
+    return { linear, angular };
+}
+
@@ -0,0 +1,61 @@
+import { IWebXRPlane, Matrix, Vector3 } from '@babylonjs/core';
+import { describe, expect, it } from 'vitest';
+
+import { PlaneClassifier } from './PlaneClassifier';
+
+const square = (size: number) => [new Vector3(0, 0, 0), new Vector3(size, 0, 0), new Vector3(size, 0, size), new Vector3(0, 0, size)];
+
+/**
+ * A plane as the plane detector reports it, with the fields the classifier reads.
+ */
+const plane = (id: number, orientation: XRPlaneOrientation, height: number, size: number, semanticLabel?: string) => ({
+    id,
+    xrPlane: { orientation, semanticLabel },
+    polygonDefinition: square(size),
+    transformationMatrix: Matrix.Translation(0, height, 0),
+}) as unknown as IWebXRPlane;
+
+
+describe('PlaneClassifier', () => {
+    it('classifies planes by their orientation, height above the floor and area', () => {
+        const classifier = new PlaneClassifier();
+
+        expect(classifier.classify(plane(0, 'horizontal', 0.05, 2)).planeClass).toBe('floor');
+        expect(classifier.classify(plane(1, 'horizontal', 0.75, 1)).planeClass).toBe('table');
+        expect(classifier.classify(plane(2, 'horizontal', 2.5, 2)).planeClass).toBe('ceiling');
+        expect(classifier.classify(plane(3, 'vertical', 1, 1)).planeClass).toBe('wall');
+        expect(classifier.classify(plane(4, 'vertical', 1, 0.5)).planeClass).toBe('other');
+        expect(classifier.classify(plane(5, 'horizontal', 0.75, 0.2)).planeClass).toBe('other');
+    });
+
+
+    it('prefers the semantic label of the runtime', () => {
+        const classifier = new PlaneClassifier();
+
+        expect(classifier.classify(plane(0, 'horizontal', 0.75, 1, 'desk')).planeClass).toBe('table');
+        expect(classifier.classify(plane(1, 'vertical', 1, 0.2, 'window')).planeClass).toBe('wall');
+        expect(classifier.classify(plane(2, 'horizontal', 0, 2, 'couch')).planeClass).toBe('other');
+    });
+
+
+    it('derives the floor height from the lowest floor plane and forgets removed planes', () => {
+        const classifier = new PlaneClassifier();
+        const floor = plane(0, 'horizontal', -0.3, 2);
+        const table = classifier.classify(plane(1, 'horizontal', 0.5, 1));
+
+        classifier.classify(floor);
+
+        expect(classifier._floorHeight).toBeCloseTo(-0.3);
+        expect(classifier.reclassify(table).heightAboveFloor).toBeCloseTo(0.8);
+
+        classifier.remove(floor);
+
+        expect(classifier._floorHeight).toBe(0);
+    });
+
+
+    it('calculates the area of a polygon in plane space', () => {
+        expect(PlaneClassifier.getArea(square(2))).toBeCloseTo(4);
+        expect(PlaneClassifier.getArea([...square(2)].reverse())).toBeCloseTo(4);
+    });
+});
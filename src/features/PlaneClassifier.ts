@@ -0,0 +1,206 @@
+import { IWebXRPlane, Vector3 } from '@babylonjs/core';
+
+/**
+ * Represents what a detected plane is.
+ * Possible values are "floor", "ceiling", "wall", "table", and "other".
+ */
+export type PlaneClass = "floor" | "ceiling" | "wall" | "table" | "other";
+
+/**
+ * What is known about a detected plane, stored as `metadata` of its mesh.
+ */
+export type PlaneMetadata = {
+    planeId: number;
+    planeClass: PlaneClass;
+    orientation: XRPlaneOrientation;
+    /**
+     * The area of the polygon in square meters.
+     */
+    area: number;
+    /**
+     * The height of the plane in meters, its y coordinate.
+     */
+    height: number;
+    /**
+     * The height of the plane above the floor in meters.
+     */
+    heightAboveFloor: number;
+    /**
+     * The label the runtime assigned to the plane, i.e. from the room setup of a Quest.
+     */
+    semanticLabel?: string;
+    /**
+     * Whether the plane was stored in an earlier session and has not been detected again yet.
+     */
+    provisional?: boolean;
+    /**
+     * How far a provisional plane is trusted, from 1 when it was stored down to 0 when the stored scan expires.
+     */
+    confidence?: number;
+}
+
+/**
+ * The classes of the semantic labels a runtime reports, labels that are not listed are "other".
+ */
+const semanticLabelClasses = new Map<string, PlaneClass>([
+    ["floor", "floor"],
+    ["ceiling", "ceiling"],
+    ["wall", "wall"],
+    ["door", "wall"],
+    ["window", "wall"],
+    ["wall art", "wall"],
+    ["table", "table"],
+    ["desk", "table"],
+]);
+
+/**
+ * Labels detected planes as floor, ceiling, wall, table or other.
+ * The label of the runtime is used if there is one, otherwise the plane is classified by its orientation,
+ * its height relative to the floor and its area. The floor height starts at y = 0, which the experience keeps
+ * on the floor, and is refined by the planes that are detected.
+ */
+export class PlaneClassifier {
+    _floorHeight: number;
+    _floorPlanes: Map<number, number>;
+
+
+    constructor() {
+        this._floorHeight = 0;
+        // The heights of the planes the floor height is derived from, by plane id
+        this._floorPlanes = new Map();
+    }
+
+
+    /**
+     * Classifies a plane and takes it into account for the floor height.
+     * @param plane The detected plane.
+     * @returns The metadata of the plane.
+     */
+    classify(plane: IWebXRPlane): PlaneMetadata {
+        const orientation = plane.xrPlane.orientation;
+        const semanticLabel = (plane.xrPlane as XRPlane & { semanticLabel?: string }).semanticLabel;
+        const height = plane.transformationMatrix.getTranslation().y;
+        const area = PlaneClassifier.getArea(plane.polygonDefinition);
+
+        if (this.isFloorCandidate(orientation, height, area, semanticLabel)) {
+            this._floorPlanes.set(plane.id, height);
+        } else {
+            this._floorPlanes.delete(plane.id);
+        }
+        this.updateFloorHeight();
+
+        return this.reclassify({ planeId: plane.id, planeClass: "other", orientation, area, height, heightAboveFloor: 0, semanticLabel });
+    }
+
+
+    /**
+     * Classifies a plane again with the current floor height, i.e. after the floor height changed.
+     * @param metadata The metadata of the plane.
+     * @returns The updated metadata.
+     */
+    reclassify(metadata: PlaneMetadata): PlaneMetadata {
+        const semanticLabel = metadata.semanticLabel;
+        const heightAboveFloor = metadata.height - this._floorHeight;
+        let planeClass: PlaneClass;
+
+        if (semanticLabel !== undefined && semanticLabel !== "") {
+            planeClass = PlaneClassifier.classifyLabel(semanticLabel);
+        } else {
+            planeClass = this.classifyByGeometry(metadata.orientation, heightAboveFloor, metadata.area);
+        }
+
+        return { ...metadata, planeClass, heightAboveFloor };
+    }
+
+
+    /**
+     * Forgets a removed plane.
+     * @param plane The removed plane.
+     */
+    remove(plane: IWebXRPlane) {
+        this._floorPlanes.delete(plane.id);
+        this.updateFloorHeight();
+    }
+
+
+    /**
+     * Forgets all planes, i.e. when the session ends.
+     */
+    reset() {
+        this._floorPlanes.clear();
+        this._floorHeight = 0;
+    }
+
+
+    /**
+     * Classifies a plane without a semantic label.
+     * @param orientation The orientation of the plane.
+     * @param heightAboveFloor The height of the plane above the floor in meters.
+     * @param area The area of the plane in square meters.
+     * @returns The class of the plane.
+     */
+    classifyByGeometry(orientation: XRPlaneOrientation, heightAboveFloor: number, area: number): PlaneClass {
+        if (orientation === "vertical") {
+            return area >= 0.5 ? "wall" : "other";
+        }
+        if (Math.abs(heightAboveFloor) < 0.15) {
+            return "floor";
+        }
+        if (heightAboveFloor >= 0.4 && heightAboveFloor <= 1.3 && area >= 0.1) {
+            return "table";
+        }
+        if (heightAboveFloor > 2 && area >= 0.5) {
+            return "ceiling";
+        }
+        return "other";
+    }
+
+
+    /**
+     * Whether a plane tells where the floor is: labeled as floor, or large, horizontal and about half a meter
+     * from y = 0 at most.
+     */
+    isFloorCandidate(orientation: XRPlaneOrientation, height: number, area: number, semanticLabel?: string): boolean {
+        if (semanticLabel !== undefined && semanticLabel !== "") {
+            return semanticLabel === "floor";
+        }
+        return orientation === "horizontal" && area >= 1 && Math.abs(height) < 0.5;
+    }
+
+
+    /**
+     * Sets the floor height to the lowest floor candidate, the floor is below everything else.
+     */
+    updateFloorHeight() {
+        this._floorHeight = this._floorPlanes.size ? Math.min(...this._floorPlanes.values()) : 0;
+    }
+
+
+    /**
+     * Returns the class of a semantic label the runtime reported, i.e. for a plane or a detected mesh.
+     * @param semanticLabel The label, i.e. "desk".
+     * @returns The class, "other" for labels that are not listed.
+     */
+    static classifyLabel(semanticLabel: string): PlaneClass {
+        return semanticLabelClasses.get(semanticLabel) ?? "other";
+    }
+
+
+    /**
+     * Calculates the area of a polygon in plane space, where the plane is spanned by x and z.
+     * @param polygon The points of the polygon.
+     * @returns The area in square meters.
+     */
+    static getArea(polygon: Vector3[]): number {
+        let area = 0;
+
+        for (let i = 0; i < polygon.length; i++) {
+            const current = polygon[i];
+            const next = polygon[(i + 1) % polygon.length];
+
+            area += current.x * next.z - next.x * current.z;
+        }
+
+        return Math.abs(area) / 2;
+    }
+}
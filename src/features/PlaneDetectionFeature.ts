@@ -0,0 +1,617 @@
+import {
+    AbstractMesh,
+    IWebXRPlane,
+    Matrix,
+    Mesh,
+    MeshBuilder,
+    Observable,
+    PolygonMeshBuilder,
+    Quaternion,
+    Ray,
+    Vector2,
+    Vector3,
+    VertexBuffer,
+    VertexData,
+    WebXRFeatureName,
+    WebXRFeaturesManager,
+    WebXRPlaneDetector,
+} from '@babylonjs/core';
+
+import { XrFeature } from '../core/XrFeature';
+import { SessionModes } from '../core/types';
+import { PlaneClass, PlaneClassifier, PlaneMetadata } from './PlaneClassifier';
+import { RoomSurface, RoomSurfaceAggregator } from './RoomSurfaces';
+import { PlaneVisualizer } from './PlaneVisualizer';
+import { PlaneVisualization, ReferenceSpaceType } from '../core/types';
+import { PlanePersistence } from '../export/PlanePersistence';
+
+/**
+ * The polygon and the pose a plane mesh was last built from, to tell whether an update changed anything.
+ */
+export type PlaneSnapshot = {
+    polygon: Vector3[];
+    transformation: Matrix;
+}
+
+/**
+ * Changes smaller than this, in meters, are not considered a change of a plane.
+ */
+const planeChangeEpsilon = 0.001;
+
+/**
+ * Renders the planes detected by the WebXR plane detection feature as polygon meshes.
+ * If the runtime does not detect planes, an invisible floor is added instead so there is still something to place objects on.
+ * Each plane mesh is classified as floor, ceiling, wall, table or other, see `getPlaneMetadata`.
+ * Planes that are parts of the same floor, wall or table are merged into a room surface, which is rendered,
+ * picked and receives shadows in place of its planes, see `getRoomSurfaces`.
+ * How the planes are drawn is set by the `planeVisualization` argument of the experience and can be switched with `setVisualization`.
+ * With the `persistPlanes` argument the surfaces are stored when the session ends and shown as provisional planes
+ * in the next session in the same room, see `PlanePersistence`.
+ * Other features that follow the plane meshes, i.e. to collide with them, are notified through `onPlaneMeshChangedObservable`.
+ */
+export class PlaneDetectionFeature extends XrFeature {
+    readonly name = 'planes';
+    readonly sessionModes: SessionModes[] = ["immersive-ar"];
+    _xrPlanes: WebXRPlaneDetector | null;
+    _planes: Mesh[] = [];
+    _snapshots: Map<number, PlaneSnapshot>;
+    _fallbackFloor: Mesh | null;
+    _classifier: PlaneClassifier;
+    _surfaces: RoomSurfaceAggregator;
+    // The meshes of the surfaces made of more than one plane, by surface id
+    _surfaceMeshes: Map<number, Mesh>;
+    _surfaceSnapshots: Map<number, PlaneSnapshot>;
+    _visualizer: PlaneVisualizer | null;
+    _persistence: PlanePersistence;
+    /**
+     * Notified when a plane, surface or provisional mesh is created, changes its shape or pose, or starts or stops colliding.
+     * Removed meshes are disposed, see `onDisposeObservable` of the mesh.
+     */
+    onPlaneMeshChangedObservable: Observable<Mesh>;
+
+
+    constructor() {
+        super();
+        this._xrPlanes = null;
+        this._planes = [];
+        this._snapshots = new Map();
+        this._fallbackFloor = null;
+        this._classifier = new PlaneClassifier();
+        this._surfaces = new RoomSurfaceAggregator();
+        this._surfaceMeshes = new Map();
+        this._surfaceSnapshots = new Map();
+        this._visualizer = null;
+        this._persistence = new PlanePersistence(this);
+        this.onPlaneMeshChangedObservable = new Observable();
+    }
+
+
+    /**
+     * Enables plane detection.
+     * @param fm The features manager of the default xr experience.
+     */
+    addFeaturesToSession(fm: WebXRFeaturesManager) {
+        this._xrPlanes = this.enableXrFeature<WebXRPlaneDetector>(fm, WebXRFeatureName.PLANE_DETECTION);
+    }
+
+
+    async createScene(): Promise<void> {
+        this._visualizer = new PlaneVisualizer(this._experience._scene, this._experience._planeVisualization, this._experience._theme, this._experience._random);
+
+        if (this._xrPlanes === null && this._experience.isAugmentedReality()) {
+            this.createFallbackFloor();
+        }
+        this.createPlaneMeshesFromXrPlane();
+
+        const xr = this._experience._xr;
+
+        if (this._experience._persistPlanes && xr !== null) {
+            // Before the observer of the features manager, which removes the planes when the session ends
+            this.observe(xr.baseExperience.sessionManager.onXRSessionEnded, () => this._persistence.save(), true);
+        }
+    }
+
+
+    /**
+     * Creates an invisible but pickable floor at y = 0, which stands in for the detected floor plane.
+     * Other sessions don't need it, they have the ground of the virtual environment.
+     */
+    createFallbackFloor() {
+        this._fallbackFloor = MeshBuilder.CreateGround("fallbackFloor", { width: 20, height: 20 }, this._experience._scene);
+        this._fallbackFloor.visibility = 0;
+        this._fallbackFloor.checkCollisions = true;
+        this._fallbackFloor.metadata = {
+            planeId: -1,
+            planeClass: "floor",
+            orientation: "horizontal",
+            area: 400,
+            height: 0,
+            heightAboveFloor: 0,
+        } satisfies PlaneMetadata;
+        this.onPlaneMeshChangedObservable.notifyObservers(this._fallbackFloor);
+    }
+
+
+    /**
+     * Returns what is known about a plane mesh.
+     * @param mesh The mesh, i.e. a picked mesh.
+     * @returns The metadata of the plane, or null if the mesh is not a plane mesh.
+     */
+    getPlaneMetadata(mesh: AbstractMesh): PlaneMetadata | null {
+        if (mesh !== this._fallbackFloor && !this._planes.includes(mesh as Mesh) && !this.isSurfaceMesh(mesh) && !this.isProvisionalMesh(mesh)) {
+            return null;
+        }
+        return mesh.metadata as PlaneMetadata;
+    }
+
+
+    /**
+     * Returns the class of a plane mesh.
+     * @param mesh The mesh, i.e. a picked mesh.
+     * @returns The class of the plane, or null if the mesh is not a plane mesh.
+     */
+    getPlaneClass(mesh: AbstractMesh): PlaneClass | null {
+        return this.getPlaneMetadata(mesh)?.planeClass ?? null;
+    }
+
+
+    /**
+     * Returns the plane mesh a point in the real world lies on, i.e. the point a hit test hit.
+     * @param position The point.
+     * @param normal The normal of the surface at the point.
+     * @returns The pickable plane mesh within a few centimeters along the normal, or null if the surface is not a detected plane.
+     */
+    getPlaneAt(position: Vector3, normal: Vector3): AbstractMesh | null {
+        const meshes = this.getPlaneMeshes().filter((mesh) => mesh.isPickable);
+        const ray = new Ray(position.add(normal.scale(0.05)), normal.negate(), 0.1);
+
+        return this._experience._scene.pickWithRay(ray, (mesh) => meshes.includes(mesh as Mesh))?.pickedMesh ?? null;
+    }
+
+
+    /**
+     * Returns the polygon and the pose a plane, surface or provisional mesh was built from.
+     * A plane merged into a surface, i.e. a picked one, has the outline of its surface.
+     * @param mesh The mesh.
+     * @returns The polygon in plane space and the pose, or null if the mesh is not a plane mesh.
+     */
+    getPlaneOutline(mesh: AbstractMesh): PlaneSnapshot | null {
+        const metadata = this.getPlaneMetadata(mesh);
+        const provisional = this._persistence.getSurface(mesh as Mesh);
+
+        if (metadata === null) {
+            return null;
+        }
+
+        if (this.isMergedPlane(mesh)) {
+            return this._surfaceSnapshots.get(this._surfaces.getSurfaceOfPlane(metadata.planeId)!.id) ?? null;
+        }
+
+        if (provisional !== null) {
+            return {
+                polygon: provisional.polygon.map((p) => Vector3.FromArray(p)),
+                transformation: Matrix.FromArray(provisional.transformationMatrix),
+            };
+        }
+
+        if (this.isSurfaceMesh(mesh)) {
+            return this._surfaceSnapshots.get(metadata.planeId) ?? null;
+        }
+        return this._planes[metadata.planeId] === mesh ? this._snapshots.get(metadata.planeId) ?? null : null;
+    }
+
+
+    /**
+     * Returns the plane meshes of a class.
+     * @param planeClass The class, i.e. "floor".
+     * @returns The plane meshes.
+     */
+    getPlanesOfClass(planeClass: PlaneClass): Mesh[] {
+        return this.getPlaneMeshes().filter((mesh) => !this.isSurfaceMesh(mesh) && this.getPlaneClass(mesh) === planeClass);
+    }
+
+
+    /**
+     * Returns all meshes of the room: the fallback floor, the plane meshes, the surface meshes and the provisional planes.
+     * @returns The meshes, which are not disposed.
+     */
+    getPlaneMeshes(): Mesh[] {
+        const meshes = [...this._planes, ...this._surfaceMeshes.values(), ...this._persistence.getMeshes()];
+
+        if (this._fallbackFloor !== null) {
+            meshes.unshift(this._fallbackFloor);
+        }
+        return meshes.filter((mesh) => mesh && !mesh.isDisposed());
+    }
+
+
+    /**
+     * Returns the surfaces of the room, i.e. to place objects on the floor.
+     * @param planeClass Only return surfaces of this class, if defined.
+     * @returns The surfaces.
+     */
+    getRoomSurfaces(planeClass?: PlaneClass): RoomSurface[] {
+        return this._surfaces.getSurfaces().filter((surface) => planeClass === undefined || surface.planeClass === planeClass);
+    }
+
+
+    /**
+     * Returns the mesh that is rendered for a surface.
+     * @param surface The surface.
+     * @returns The mesh of the surface, the mesh of its plane if it is made of one plane.
+     */
+    getSurfaceMesh(surface: RoomSurface): Mesh | null {
+        return this._surfaceMeshes.get(surface.id) ?? this._planes[surface.id] ?? null;
+    }
+
+
+    isSurfaceMesh(mesh: AbstractMesh): boolean {
+        return [...this._surfaceMeshes.values()].includes(mesh as Mesh);
+    }
+
+
+    /**
+     * Whether a mesh is the mesh of a plane that is merged into a surface with other planes.
+     * It is not drawn, but is picked and collided with instead of the surface, which bridges the gaps between its planes.
+     * @param mesh The mesh.
+     */
+    isMergedPlane(mesh: AbstractMesh): boolean {
+        const planeId = this._planes.indexOf(mesh as Mesh);
+
+        return planeId !== -1 && this._surfaceMeshes.has(this._surfaces.getSurfaceOfPlane(planeId)?.id ?? -1);
+    }
+
+
+    /**
+     * Returns the mesh that is drawn for a plane mesh, i.e. for a picked one.
+     * @param mesh The plane mesh.
+     * @returns The mesh of the surface the plane is merged into, or the mesh itself.
+     */
+    getDrawnMesh(mesh: AbstractMesh): AbstractMesh {
+        const planeId = this._planes.indexOf(mesh as Mesh);
+        const surface = planeId === -1 ? null : this._surfaces.getSurfaceOfPlane(planeId);
+
+        return (surface && this._surfaceMeshes.get(surface.id)) ?? mesh;
+    }
+
+
+    isProvisionalMesh(mesh: AbstractMesh): boolean {
+        return this._persistence.getSurface(mesh as Mesh) !== null;
+    }
+
+
+    /**
+     * Returns the height of the floor, derived from the detected planes.
+     */
+    getFloorHeight(): number {
+        return this._classifier._floorHeight;
+    }
+
+
+    /**
+     * Switches how the planes are drawn.
+     * @param mode The visualization, i.e. "occlusion" to hide virtual objects behind real walls and tables.
+     */
+    setVisualization(mode: PlaneVisualization) {
+        if (this._visualizer === null) {
+            return;
+        }
+
+        this._visualizer.setMode(mode);
+        this._planes.forEach((mesh) => {
+            if (!mesh.isDisposed() && !this.isMergedPlane(mesh)) {
+                this._visualizer!.apply(mesh);
+            }
+        });
+        this._surfaceMeshes.forEach((mesh) => this._visualizer!.apply(mesh));
+        this._persistence.getMeshes().forEach((mesh) => this._visualizer!.apply(mesh));
+    }
+
+
+    /**
+     * Shows the planes stored for the granted reference space, see `PlanePersistence`.
+     * @param referenceSpaceType The granted reference space type.
+     */
+    onReferenceSpaceGranted(referenceSpaceType: ReferenceSpaceType): void {
+        if (this._experience._persistPlanes) {
+            this._persistence.restore(referenceSpaceType, this._experience._xr?.baseExperience.sessionManager.referenceSpace);
+        }
+    }
+
+
+    /**
+     * Classifies the plane and stores the result as metadata of its mesh.
+     * If the plane changes the floor height, all other planes are classified again.
+     * @param plane The detected plane.
+     * @param mesh The mesh of the plane.
+     */
+    classifyPlane(plane: IWebXRPlane, mesh: Mesh) {
+        const floorHeight = this._classifier._floorHeight;
+
+        mesh.metadata = this._classifier.classify(plane);
+        this._surfaces.setPlane(plane, mesh.metadata.planeClass);
+        this._visualizer?.apply(mesh);
+
+        if (this._classifier._floorHeight !== floorHeight) {
+            this._planes.forEach((other, id) => {
+                if (other !== mesh && !other.isDisposed()) {
+                    other.metadata = this._classifier.reclassify(other.metadata as PlaneMetadata);
+                    this._surfaces.setPlaneClass(id, other.metadata.planeClass);
+                    this._visualizer?.apply(other);
+                }
+            });
+        }
+        this._experience._logger.debug(this.name, `plane ${plane.id} is ${mesh.metadata.planeClass}`);
+        this._persistence.reconcileProvisionalPlanes(plane.id);
+        this.updateSurfaces();
+    }
+
+
+    /**
+     * Merges the planes into surfaces again and updates the surface meshes.
+     * The planes of a surface made of more than one plane are hidden, its mesh is rendered and receives shadows instead.
+     * The planes are still picked and collided with, as the outline of the surface bridges the gaps between them, see `RoomSurfaceAggregator`.
+     */
+    updateSurfaces() {
+        const merged = this._surfaces.update().filter((surface) => surface.planeIds.length > 1);
+        const mergedPlaneIds = new Set(merged.flatMap((surface) => surface.planeIds));
+
+        this._surfaceMeshes.forEach((mesh, id) => {
+            if (!merged.some((surface) => surface.id === id)) {
+                mesh.dispose();
+                this._surfaceMeshes.delete(id);
+                this._surfaceSnapshots.delete(id);
+            }
+        });
+
+        merged.forEach((surface) => this.updateSurfaceMesh(surface));
+
+        this._planes.forEach((mesh, id) => {
+            if (!mesh.isDisposed()) {
+                const isShown = !mergedPlaneIds.has(id);
+                const changed = mesh.receiveShadows !== isShown;
+
+                mesh.receiveShadows = isShown;
+
+                if (!isShown) {
+                    // Not drawn but still visible, so the plane is picked like the fallback floor
+                    mesh.visibility = 0;
+                } else if (changed) {
+                    mesh.visibility = 1;
+                    this._visualizer?.apply(mesh);
+                }
+
+                if (changed) {
+                    this.onPlaneMeshChangedObservable.notifyObservers(mesh);
+                }
+            }
+        });
+    }
+
+
+    /**
+     * Creates or updates the mesh of a surface made of more than one plane.
+     * It has the metadata of the plane the surface is aligned with, with the area of the surface, and is drawn like that plane.
+     * @param surface The surface.
+     */
+    updateSurfaceMesh(surface: RoomSurface) {
+        const reference = this._planes[surface.id];
+        let mesh = this._surfaceMeshes.get(surface.id);
+        const snapshot = this._surfaceSnapshots.get(surface.id);
+        let changed = true;
+
+        if (mesh === undefined || snapshot === undefined) {
+            mesh = new Mesh("surface" + surface.id, this._experience._scene);
+            this.buildPolygonVertexData(mesh.name, surface.polygon).applyToMesh(mesh, true);
+            mesh.rotationQuaternion = new Quaternion();
+            // Its planes are picked and collided with instead
+            mesh.isPickable = false;
+            mesh.receiveShadows = true;
+            surface.transformationMatrix.decompose(mesh.scaling, mesh.rotationQuaternion, mesh.position);
+            this._surfaceMeshes.set(surface.id, mesh);
+        } else {
+            changed = this.updateMesh(mesh, snapshot, surface.polygon, surface.transformationMatrix);
+        }
+
+        mesh.metadata = { ...reference.metadata as PlaneMetadata, area: surface.area } satisfies PlaneMetadata;
+        this._visualizer?.apply(mesh);
+        this._surfaceSnapshots.set(surface.id, this.takeSnapshot(surface.polygon, surface.transformationMatrix));
+
+        if (changed) {
+            this.onPlaneMeshChangedObservable.notifyObservers(mesh);
+        }
+    }
+
+
+    /**
+     * Creates a plane mesh from a detected plane.
+     * @param xrPlane The detected plane.
+     * @returns A plane mesh.
+     */
+    createPlaneMeshesFromXrPlane(): void {
+        interface IWebXRPlaneWithMesh extends IWebXRPlane {
+            mesh?: Mesh;
+        }
+
+        if (this._xrPlanes === null) {
+            return;
+        }
+
+        this.observe(this._xrPlanes.onPlaneAddedObservable, (plane: IWebXRPlaneWithMesh) => {
+            this._experience._logger.debug(this.name, "plane added", plane);
+            this.initPolygon(plane);
+        });
+
+        this.observe(this._xrPlanes.onPlaneUpdatedObservable, (plane: IWebXRPlaneWithMesh) => {
+            const some = plane.polygonDefinition.some(p => !p);
+            if (some) {
+                return;
+            }
+            this.updatePolygon(plane);
+        });
+
+        this.observe(this._xrPlanes.onPlaneRemovedObservable, (plane: IWebXRPlaneWithMesh) => {
+            if (plane && this._planes[plane.id]) {
+                this._planes[plane.id].dispose()
+            }
+            if (plane) {
+                this._snapshots.delete(plane.id);
+                this._classifier.remove(plane);
+                this._surfaces.removePlane(plane.id);
+                this.updateSurfaces();
+                this._visualizer?.removePlane(plane.id);
+            }
+        })
+    }
+
+
+    /**
+     * Removes the plane meshes, the planes are detected again when the user enters XR again.
+     */
+    onSessionEnded(): void {
+        this._planes.forEach((plane: Mesh) => plane.dispose());
+        while (this._planes.pop());
+        this._snapshots.clear();
+        this._classifier.reset();
+        this._surfaceMeshes.forEach((mesh) => mesh.dispose());
+        this._surfaceMeshes.clear();
+        this._surfaceSnapshots.clear();
+        this._surfaces.reset();
+        this._visualizer?.reset();
+        this._persistence.reset();
+    }
+
+
+    /**
+     * Initializes the polygon that represents the plane.
+     * @param plane The plane.
+     */
+    initPolygon(plane: IWebXRPlane): Mesh {
+        const polygon = new Mesh(plane.xrPlane.orientation + plane.id, this._experience._scene);
+
+        // Updatable, so the vertices can be replaced in place when the plane changes
+        this.buildPolygonVertexData(polygon.name, plane.polygonDefinition).applyToMesh(polygon, true);
+
+        polygon.rotationQuaternion = new Quaternion();
+        polygon.checkCollisions = true;
+        polygon.receiveShadows = true;
+
+        plane.transformationMatrix.decompose(polygon.scaling, polygon.rotationQuaternion, polygon.position);
+
+        this._planes[plane.id] = (polygon);
+        this._snapshots.set(plane.id, this.takeSnapshot(plane.polygonDefinition, plane.transformationMatrix));
+        this.classifyPlane(plane, polygon);
+        this.onPlaneMeshChangedObservable.notifyObservers(polygon);
+
+        return polygon;
+    }
+
+
+    /**
+     * Updates the mesh of a plane in place, keeping the mesh.
+     * @param plane The updated plane.
+     * @returns Whether the plane changed.
+     */
+    updatePolygon(plane: IWebXRPlane): boolean {
+        const polygon = this._planes[plane.id];
+        const snapshot = this._snapshots.get(plane.id);
+
+        if (!polygon || polygon.isDisposed() || snapshot === undefined) {
+            this.initPolygon(plane);
+            return true;
+        }
+
+        if (!this.updateMesh(polygon, snapshot, plane.polygonDefinition, plane.transformationMatrix)) {
+            return false;
+        }
+
+        this._snapshots.set(plane.id, this.takeSnapshot(plane.polygonDefinition, plane.transformationMatrix));
+        this.classifyPlane(plane, polygon);
+        this.onPlaneMeshChangedObservable.notifyObservers(polygon);
+
+        return true;
+    }
+
+
+    /**
+     * Updates the vertices and the pose of a mesh in place.
+     * The polygon is only triangulated again if it changed, and only the pose is updated if the mesh just moved.
+     * @param mesh The mesh, created with updatable vertices.
+     * @param snapshot The polygon and the pose the mesh was last built from.
+     * @param polygon The new polygon.
+     * @param transformationMatrix The new pose.
+     * @returns Whether the polygon or the pose changed.
+     */
+    updateMesh(mesh: Mesh, snapshot: PlaneSnapshot, polygon: Vector3[], transformationMatrix: Matrix): boolean {
+        const polygonChanged = !this.isSamePolygon(snapshot.polygon, polygon);
+        const poseChanged = !this.isSameTransformation(snapshot.transformation, transformationMatrix);
+
+        if (!polygonChanged && !poseChanged) {
+            return false;
+        }
+
+        if (polygonChanged) {
+            const vertexData = this.buildPolygonVertexData(mesh.name, polygon);
+
+            if (vertexData.positions!.length === mesh.getVerticesData(VertexBuffer.PositionKind)?.length) {
+                // The same number of vertices, so the buffers are overwritten instead of recreated
+                mesh.updateVerticesData(VertexBuffer.PositionKind, vertexData.positions!);
+                mesh.updateVerticesData(VertexBuffer.NormalKind, vertexData.normals!);
+                mesh.updateVerticesData(VertexBuffer.UVKind, vertexData.uvs!);
+                mesh.updateIndices(vertexData.indices!);
+                mesh.refreshBoundingInfo();
+            } else {
+                vertexData.applyToMesh(mesh, true);
+            }
+        }
+
+        if (poseChanged) {
+            transformationMatrix.decompose(mesh.scaling, mesh.rotationQuaternion!, mesh.position);
+        }
+
+        return true;
+    }
+
+
+    /**
+     * Triangulates a polygon, a thin slab with normals computed from its faces.
+     * @param name The name of the mesh.
+     * @param polygon The polygon in plane space, where the plane is spanned by x and z.
+     * @returns The vertex data of the polygon.
+     */
+    buildPolygonVertexData(name: string, polygon: Vector3[]): VertexData {
+        const points = polygon.map((p) => new Vector2(p.x, p.z));
+        const vertexData = new PolygonMeshBuilder(name, points, this._experience._scene).buildVertexData(0.01);
+
+        VertexData.ComputeNormals(vertexData.positions, vertexData.indices, vertexData.normals);
+
+        return vertexData;
+    }
+
+
+    /**
+     * Copies a polygon and a pose, the runtime may reuse them for the next update.
+     * @param polygon The polygon.
+     * @param transformationMatrix The pose.
+     * @returns The snapshot.
+     */
+    takeSnapshot(polygon: Vector3[], transformationMatrix: Matrix): PlaneSnapshot {
+        return {
+            polygon: polygon.map((p) => p.clone()),
+            transformation: transformationMatrix.clone(),
+        };
+    }
+
+
+    isSamePolygon(previous: Vector3[], current: Vector3[]): boolean {
+        return previous.length === current.length
+            && previous.every((p, index) => p.equalsWithEpsilon(current[index], planeChangeEpsilon));
+    }
+
+
+    isSameTransformation(previous: Matrix, current: Matrix): boolean {
+        const currentValues = current.m;
+
+        return previous.m.every((value, index) => Math.abs(value - currentValues[index]) <= planeChangeEpsilon);
+    }
+}
@@ -0,0 +1,128 @@
+import { Matrix, Vector2, Vector3 } from '@babylonjs/core';
+
+import type { MeasurementUnits } from '../core/types';
+import { PlaneClassifier } from './PlaneClassifier';
+import { convexHull } from './RoomSurfaces';
+
+/**
+ * The size of a plane and where it is.
+ */
+export type PlaneMeasurement = {
+    /**
+     * The area of the polygon in square meters.
+     */
+    area: number;
+    /**
+     * The longer side of the smallest rectangle around the polygon in meters.
+     */
+    width: number;
+    /**
+     * The shorter side of the smallest rectangle around the polygon in meters, the height of a wall.
+     */
+    depth: number;
+    /**
+     * The height of the lowest point of the plane above the floor in meters, the top of a table or the bottom of a wall.
+     */
+    heightAboveFloor: number;
+    /**
+     * The center of the rectangle in world space.
+     */
+    center: Vector3;
+    /**
+     * The normal of the plane in world space.
+     */
+    normal: Vector3;
+}
+
+const metersPerFoot = 0.3048;
+
+
+/**
+ * Measures a plane.
+ * @param polygon The polygon in plane space, where the plane is spanned by x and z.
+ * @param transformationMatrix The pose of the plane.
+ * @param floorHeight The height of the floor.
+ * @returns The measurement.
+ */
+export function measurePlane(polygon: Vector3[], transformationMatrix: Matrix, floorHeight: number): PlaneMeasurement {
+    const rectangle = getBoundingRectangle(polygon.map((p) => new Vector2(p.x, p.z)));
+    const lowest = Math.min(...polygon.map((p) => Vector3.TransformCoordinates(p, transformationMatrix).y));
+
+    return {
+        area: PlaneClassifier.getArea(polygon),
+        width: Math.max(rectangle.width, rectangle.depth),
+        depth: Math.min(rectangle.width, rectangle.depth),
+        heightAboveFloor: polygon.length ? lowest - floorHeight : 0,
+        center: Vector3.TransformCoordinates(new Vector3(rectangle.center.x, 0, rectangle.center.y), transformationMatrix),
+        normal: Vector3.TransformNormal(Vector3.Up(), transformationMatrix).normalize(),
+    };
+}
+
+
+/**
+ * Finds the rectangle of the smallest area around a polygon, one of its sides lies on an edge of the convex hull.
+ * @param points The points of the polygon.
+ * @returns The sides and the center of the rectangle.
+ */
+function getBoundingRectangle(points: Vector2[]): { width: number, depth: number, center: Vector2 } {
+    const hull = convexHull(points);
+    let best = { width: 0, depth: 0, center: Vector2.Zero(), area: Infinity };
+
+    hull.forEach((p, index) => {
+        const next = hull[(index + 1) % hull.length];
+        const direction = next.subtract(p);
+
+        if (direction.lengthSquared() === 0) {
+            return;
+        }
+
+        direction.normalize();
+
+        const normal = new Vector2(-direction.y, direction.x);
+        const along = hull.map((q) => Vector2.Dot(q, direction));
+        const across = hull.map((q) => Vector2.Dot(q, normal));
+        const width = Math.max(...along) - Math.min(...along);
+        const depth = Math.max(...across) - Math.min(...across);
+
+        if (width * depth < best.area) {
+            const center = direction.scale((Math.max(...along) + Math.min(...along)) / 2)
+                .add(normal.scale((Math.max(...across) + Math.min(...across)) / 2));
+
+            best = { width, depth, center, area: width * depth };
+        }
+    });
+
+    return best;
+}
+
+
+/**
+ * Formats a length, i.e. "1.25 m" or "4' 1"".
+ * @param meters The length in meters.
+ * @param units The units.
+ * @returns The formatted length.
+ */
+export function formatLength(meters: number, units: MeasurementUnits): string {
+    if (units === "metric") {
+        return `${meters.toFixed(2)} m`;
+    }
+
+    const inches = Math.round(Math.abs(meters) / metersPerFoot * 12);
+    const sign = meters < 0 && inches > 0 ? "-" : "";
+
+    return `${sign}${Math.floor(inches / 12)}' ${inches % 12}"`;
+}
+
+
+/**
+ * Formats an area, i.e. "0.85 m²" or "9.1 ft²".
+ * @param squareMeters The area in square meters.
+ * @param units The units.
+ * @returns The formatted area.
+ */
+export function formatArea(squareMeters: number, units: MeasurementUnits): string {
+    if (units === "metric") {
+        return `${squareMeters.toFixed(2)} m²`;
+    }
+    return `${(squareMeters / (metersPerFoot * metersPerFoot)).toFixed(1)} ft²`;
+}
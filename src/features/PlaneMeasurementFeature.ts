@@ -0,0 +1,228 @@
+import {
+    AbstractMesh,
+    Color3,
+    DynamicTexture,
+    Mesh,
+    MeshBuilder,
+    StandardMaterial,
+} from '@babylonjs/core';
+
+import { XrFeature } from '../core/XrFeature';
+import { createRayFromController } from '../core/controllers';
+import { PlaneMetadata } from './PlaneClassifier';
+import { PlaneDetectionFeature } from './PlaneDetectionFeature';
+import { formatArea, formatLength, measurePlane, PlaneMeasurement } from './PlaneMeasurement';
+
+export type PlaneMeasurementFeatureArguments = {
+    /**
+     * Whether every plane is labeled, otherwise only the plane selected with the trigger of a controller. Defaults to true.
+     */
+    labelAll?: boolean;
+}
+
+/**
+ * Labels the planes with their measurements: the area, the sides of the smallest rectangle around them
+ * and their height above the floor, in the `measurementUnits` of the experience.
+ * A merged surface is labeled as a whole instead of its planes.
+ * Must be composed after the `PlaneDetectionFeature`.
+ */
+export class PlaneMeasurementFeature extends XrFeature {
+    readonly name = 'measurements';
+    _labelAll: boolean;
+    // The labels by the plane mesh they belong to
+    _labels: Map<AbstractMesh, { mesh: Mesh, texture: DynamicTexture }>;
+    _selected: AbstractMesh | null;
+
+
+    constructor(args: PlaneMeasurementFeatureArguments = {}) {
+        super();
+        this._labelAll = args.labelAll ?? true;
+        this._labels = new Map();
+        this._selected = null;
+    }
+
+
+    async createScene(): Promise<void> {
+        const planes = this._experience.getFeature(PlaneDetectionFeature);
+
+        if (planes === null) {
+            return;
+        }
+
+        if (this._labelAll) {
+            planes.getPlaneMeshes().forEach((mesh) => this.updateLabel(mesh));
+        }
+
+        this.observe(planes.onPlaneMeshChangedObservable, (mesh) => {
+            if (this._labelAll || mesh === this._selected) {
+                this.updateLabel(mesh);
+            }
+        });
+        this.handleControllerSelection();
+    }
+
+
+    /**
+     * Selects the plane a controller points at when its trigger is pressed, unless every plane is labeled.
+     */
+    handleControllerSelection() {
+        if (this._labelAll) {
+            return;
+        }
+
+        this.observe(this._experience._inputActions.getObservable("select"), ({ controller, pressed }) => {
+            if (pressed) {
+                const hit = this._experience._scene.pickWithRay(createRayFromController(controller));
+                const mesh = hit?.pickedMesh ?? null;
+
+                // The planes of a surface are picked, the surface is labeled
+                this.select(mesh && (this._experience.getFeature(PlaneDetectionFeature)?.getDrawnMesh(mesh) ?? mesh));
+            }
+        });
+    }
+
+
+    /**
+     * Labels a plane and removes the label of the plane selected before.
+     * @param mesh The plane mesh, nothing is labeled if it is null or not a plane mesh.
+     */
+    select(mesh: AbstractMesh | null) {
+        if (this._selected !== null && this._selected !== mesh) {
+            this.removeLabel(this._selected);
+        }
+
+        this._selected = mesh !== null && this.measure(mesh) !== null ? mesh : null;
+
+        if (this._selected !== null) {
+            this.updateLabel(this._selected);
+        }
+    }
+
+
+    /**
+     * Measures a plane, surface or provisional mesh from the polygon and the pose it was built from.
+     * @param mesh The mesh.
+     * @returns The measurement, or null if the mesh is not a plane mesh or is hidden as part of a surface.
+     */
+    measure(mesh: AbstractMesh): PlaneMeasurement | null {
+        const planes = this._experience.getFeature(PlaneDetectionFeature);
+        const outline = planes && !planes.isMergedPlane(mesh) ? planes.getPlaneOutline(mesh) : null;
+
+        return planes && outline ? measurePlane(outline.polygon, outline.transformation, planes.getFloorHeight()) : null;
+    }
+
+
+    /**
+     * Creates or redraws the label of a plane, or removes it if the plane can't be measured (anymore).
+     * @param mesh The plane mesh.
+     */
+    updateLabel(mesh: AbstractMesh) {
+        const measurement = this.measure(mesh);
+
+        if (measurement === null) {
+            this.removeLabel(mesh);
+            return;
+        }
+
+        const label = this._labels.get(mesh) ?? this.createLabel(mesh);
+
+        // Slightly in front of the plane, so it does not intersect with it
+        label.mesh.position = measurement.center.add(measurement.normal.scale(0.1));
+        this.drawMeasurement(label.texture, (mesh.metadata as PlaneMetadata).planeClass, measurement);
+    }
+
+
+    /**
+     * Creates a label, a plane facing the user with a dynamic texture the measurement is drawn on.
+     * It is removed along with the plane mesh.
+     * @param mesh The plane mesh.
+     * @returns The label.
+     */
+    createLabel(mesh: AbstractMesh): { mesh: Mesh, texture: DynamicTexture } {
+        const scene = this._experience._scene;
+        const material = new StandardMaterial(`${mesh.name}MeasurementMaterial`, scene);
+        const texture = new DynamicTexture(`${mesh.name}MeasurementTexture`, { width: 512, height: 256 }, scene, false);
+        const label = MeshBuilder.CreatePlane(`${mesh.name}Measurement`, { width: 0.3, height: 0.15 }, scene);
+
+        material.diffuseTexture = texture;
+        material.emissiveColor = Color3.White();
+        material.disableLighting = true;
+
+        label.material = material;
+        label.billboardMode = Mesh.BILLBOARDMODE_ALL;
+        label.isPickable = false;
+        // Drawn on top, so the label is readable even if it intersects with another plane
+        label.renderingGroupId = 1;
+
+        this._labels.set(mesh, { mesh: label, texture });
+        mesh.onDisposeObservable.addOnce(() => this.removeLabel(mesh));
+
+        return this._labels.get(mesh)!;
+    }
+
+
+    /**
+     * Draws the class of a plane and its measurement, one value per line.
+     */
+    drawMeasurement(texture: DynamicTexture, planeClass: string, measurement: PlaneMeasurement) {
+        const units = this._experience._measurementUnits;
+        const context = texture.getContext();
+        const size = texture.getSize();
+        const lines = [
+            planeClass,
+            formatArea(measurement.area, units),
+            `${formatLength(measurement.width, units)} × ${formatLength(measurement.depth, units)}`,
+            `${formatLength(measurement.heightAboveFloor, units)} above floor`,
+        ];
+        const lineHeight = size.height / lines.length;
+
+        context.fillStyle = "rgba(0, 0, 0, 0.7)";
+        context.fillRect(0, 0, size.width, size.height);
+        context.font = `${Math.floor(lineHeight * 0.7)}px sans-serif`;
+        context.fillStyle = "#ffffff";
+
+        lines.forEach((line, index) => context.fillText(line, 16, lineHeight * (index + 0.8)));
+
+        texture.update();
+    }
+
+
+    /**
+     * Removes the label of a plane.
+     * @param mesh The plane mesh.
+     */
+    removeLabel(mesh: AbstractMesh) {
+        const label = this._labels.get(mesh);
+
+        if (label === undefined) {
+            return;
+        }
+
+        label.mesh.material?.dispose(true, true);
+        label.mesh.dispose();
+        this._labels.delete(mesh);
+    }
+
+
+    /**
+     * Removes the labels, the planes are removed as well.
+     */
+    onSessionEnded(): void {
+        [...this._labels.keys()].forEach((mesh) => this.removeLabel(mesh));
+        this._selected = null;
+    }
+}
+
+
+/**
+ * Parses which planes `?measurePlanes` labels: all of them if there is no value or "all", the selected one with "selected".
+ * @param value The value of the parameter.
+ * @returns Whether every plane is labeled.
+ * @throws {Error} Throws an error if the value is neither.
+ */
+export function parseMeasurePlanes(value: string): boolean {
+    if (value !== '' && value !== 'all' && value !== 'selected') {
+        throw new Error(`measurePlanes must be all or selected, got "${value}"`);
+    }
+    return value !== 'selected';
+}
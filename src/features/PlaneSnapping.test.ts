@@ -0,0 +1,44 @@
+import { Matrix, Vector3 } from '@babylonjs/core';
+import { describe, expect, it } from 'vitest';
+
+import { snapToPlane } from './PlaneSnapping';
+
+// A square meter of floor, its pose moves it 1 meter along x
+const polygon = [new Vector3(-0.5, 0, -0.5), new Vector3(0.5, 0, -0.5), new Vector3(0.5, 0, 0.5), new Vector3(-0.5, 0, 0.5)];
+const transformationMatrix = Matrix.Translation(1, 0, 0);
+
+
+describe('snapToPlane', () => {
+    it('snaps to the nearest corner first', () => {
+        const { position, target } = snapToPlane(new Vector3(1.45, 0, 0.4), polygon, transformationMatrix, { corners: 0.2, edges: 0.2, grid: 0.1 });
+
+        expect(target).toBe('corner');
+        expect(position.equalsWithEpsilon(new Vector3(1.5, 0, 0.5))).toBe(true);
+    });
+
+
+    it('snaps to an edge when no corner is close enough', () => {
+        const { position, target } = snapToPlane(new Vector3(1.42, 0, 0.03), polygon, transformationMatrix, { corners: 0.2, edges: 0.1 });
+
+        expect(target).toBe('edge');
+        expect(position.equalsWithEpsilon(new Vector3(1.5, 0, 0.03))).toBe(true);
+    });
+
+
+    it('snaps to the grid aligned with the center of the plane', () => {
+        const { position, target } = snapToPlane(new Vector3(1.13, 0, -0.26), polygon, transformationMatrix, { grid: 0.25 });
+
+        expect(target).toBe('grid');
+        expect(position.equalsWithEpsilon(new Vector3(1.25, 0, -0.25))).toBe(true);
+    });
+
+
+    it('leaves the point where it is without a target in reach', () => {
+        const point = new Vector3(1, 0, 0);
+        const { position, target } = snapToPlane(point, polygon, transformationMatrix, { corners: 0.1, edges: 0.1 });
+
+        expect(target).toBeNull();
+        expect(position.equals(point)).toBe(true);
+        expect(position).not.toBe(point);
+    });
+});
@@ -0,0 +1,84 @@
+import { Matrix, Vector2, Vector3 } from '@babylonjs/core';
+
+/**
+ * What a point on a plane snaps to, each within a distance in meters. Corners take precedence over edges,
+ * edges over the grid. Left out, a point does not snap to it.
+ */
+export type PlaneSnapping = {
+    /**
+     * Snaps to the corners of the polygon of the plane within this distance.
+     */
+    corners?: number;
+    /**
+     * Snaps to the edges of the polygon of the plane within this distance, i.e. where a wall meets the floor.
+     */
+    edges?: number;
+    /**
+     * Snaps to a grid of cells of this size, aligned with the center of the plane.
+     */
+    grid?: number;
+}
+
+/**
+ * Represents what a point snapped to.
+ * Possible values are "corner", "edge", "grid", and null if it did not snap.
+ */
+export type SnapTarget = "corner" | "edge" | "grid" | null;
+
+
+/**
+ * Snaps a point on a plane to a corner or an edge of its polygon, or to a grid.
+ * @param point The point in world space, i.e. a hit of a hit test.
+ * @param polygon The polygon in plane space, where the plane is spanned by x and z.
+ * @param transformationMatrix The pose of the plane.
+ * @param snapping What the point snaps to.
+ * @returns The point in world space, on the plane, and what it snapped to.
+ */
+export function snapToPlane(point: Vector3, polygon: Vector3[], transformationMatrix: Matrix, snapping: PlaneSnapping): { position: Vector3, target: SnapTarget } {
+    const local = Vector3.TransformCoordinates(point, Matrix.Invert(transformationMatrix));
+    const p = new Vector2(local.x, local.z);
+    const corners = polygon.map((corner) => new Vector2(corner.x, corner.z));
+    const toWorld = (q: Vector2) => Vector3.TransformCoordinates(new Vector3(q.x, 0, q.y), transformationMatrix);
+
+    if (snapping.corners !== undefined && corners.length) {
+        const corner = corners.reduce((nearest, q) => Vector2.Distance(p, q) < Vector2.Distance(p, nearest) ? q : nearest);
+
+        if (Vector2.Distance(p, corner) <= snapping.corners) {
+            return { position: toWorld(corner), target: "corner" };
+        }
+    }
+
+    if (snapping.edges !== undefined && corners.length > 1) {
+        const edgePoints = corners.map((q, index) => closestPointOnSegment(p, q, corners[(index + 1) % corners.length]));
+        const edgePoint = edgePoints.reduce((nearest, q) => Vector2.Distance(p, q) < Vector2.Distance(p, nearest) ? q : nearest);
+
+        if (Vector2.Distance(p, edgePoint) <= snapping.edges) {
+            return { position: toWorld(edgePoint), target: "edge" };
+        }
+    }
+
+    if (snapping.grid !== undefined && snapping.grid > 0) {
+        const size = snapping.grid;
+
+        return { position: toWorld(new Vector2(Math.round(p.x / size) * size, Math.round(p.y / size) * size)), target: "grid" };
+    }
+
+    return { position: point.clone(), target: null };
+}
+
+
+/**
+ * Returns the point of a line segment closest to a point.
+ */
+function closestPointOnSegment(p: Vector2, a: Vector2, b: Vector2): Vector2 {
+    const ab = b.subtract(a);
+    const lengthSquared = ab.lengthSquared();
+
+    if (lengthSquared === 0) {
+        return a.clone();
+    }
+
+    const t = Math.min(Math.max(Vector2.Dot(p.subtract(a), ab) / lengthSquared, 0), 1);
+
+    return a.add(ab.scale(t));
+}
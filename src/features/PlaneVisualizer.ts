@@ -0,0 +1,186 @@
+import {
+    Color3,
+    Color4,
+    Material,
+    Mesh,
+    RenderingGroup,
+    Scene,
+    StandardMaterial,
+    SubMesh,
+} from '@babylonjs/core';
+import { GridMaterial } from '@babylonjs/materials/grid';
+
+import { SeededRandom } from '../core/SeededRandom';
+import { Theme, themes } from '../core/Theme';
+import type { PlaneVisualization } from '../core/types';
+import type { PlaneMetadata } from './PlaneClassifier';
+
+/**
+ * What the visualizer needs to know about a mesh, the `PlaneMetadata` of a plane mesh.
+ */
+export type VisualizedMetadata = Pick<PlaneMetadata, "planeId" | "planeClass" | "confidence">;
+
+/**
+ * Draws plane meshes in one of the visualizations, see `PlaneVisualization`.
+ * The material of a plane mesh is chosen from its metadata, so apply the visualization again when the plane is classified again.
+ * In the "occlusion" visualization the planes only write depth and are rendered before all other meshes,
+ * so virtual objects behind a real wall or table are hidden by it.
+ * The colours are taken from the theme, the tint of a plane in the "random" visualization is picked by its id,
+ * so a plane gets the same tint whenever it is detected in the same order.
+ */
+export class PlaneVisualizer {
+    _scene: Scene;
+    _mode: PlaneVisualization;
+    _theme: Theme;
+    _random: SeededRandom;
+    // The random tints of the "random" visualization, by plane id
+    _randomMaterials: Map<number, StandardMaterial>;
+    // The materials shared by all planes, by class or visualization
+    _sharedMaterials: Map<string, Material>;
+
+
+    constructor(scene: Scene, mode: PlaneVisualization = "random", theme: Theme = themes.default, random = new SeededRandom(1)) {
+        this._scene = scene;
+        this._mode = mode;
+        this._theme = theme;
+        this._random = random;
+        this._randomMaterials = new Map();
+        this._sharedMaterials = new Map();
+        this.updateRenderingOrder();
+    }
+
+
+    /**
+     * Switches to another visualization, call `apply` for every plane mesh afterwards.
+     * @param mode The visualization.
+     */
+    setMode(mode: PlaneVisualization) {
+        this._mode = mode;
+        this.updateRenderingOrder();
+    }
+
+
+    /**
+     * Draws a plane mesh in the current visualization.
+     * @param mesh The plane mesh, with `PlaneMetadata`.
+     */
+    apply(mesh: Mesh) {
+        const metadata = mesh.metadata as VisualizedMetadata;
+
+        mesh.material = this.getMaterial(metadata);
+        // Provisional planes fade out as they age, except when they only write depth
+        mesh.visibility = this._mode === "hidden" ? 0 : this._mode === "occlusion" ? 1 : metadata.confidence ?? 1;
+
+        // The outline is recreated, as the edges are computed from the vertices when it is enabled
+        mesh.disableEdgesRendering();
+
+        if (this._mode === "wireframe") {
+            mesh.enableEdgesRendering();
+            mesh.edgesWidth = 1;
+            mesh.edgesColor = Color4.FromColor3(Color3.FromHexString(this._theme.planeColors[metadata.planeClass]));
+        }
+    }
+
+
+    /**
+     * Returns the material of a plane in the current visualization.
+     * @param metadata The metadata of the plane.
+     * @returns The material.
+     */
+    getMaterial(metadata: VisualizedMetadata): Material {
+        switch (this._mode) {
+            case "random":
+            case "hidden":
+                return this.getRandomMaterial(metadata.planeId);
+            case "classification":
+                return this.getSharedMaterial(metadata.planeClass, () => {
+                    const material = new StandardMaterial(`planeMaterial_${metadata.planeClass}`, this._scene);
+                    material.alpha = 0.35;
+                    material.diffuseColor = Color3.FromHexString(this._theme.planeColors[metadata.planeClass]);
+                    return material;
+                });
+            case "grid":
+                return this.getSharedMaterial("grid", () => {
+                    const material = new GridMaterial("planeGridMaterial", this._scene);
+                    material.mainColor = Color3.White();
+                    material.lineColor = Color3.White();
+                    material.gridRatio = 0.1;
+                    material.majorUnitFrequency = 10;
+                    material.opacity = 0.6;
+                    return material;
+                });
+            case "wireframe":
+                return this.getSharedMaterial("wireframe", () => {
+                    const material = new StandardMaterial("planeOutlineMaterial", this._scene);
+                    material.alpha = 0;
+                    return material;
+                });
+            case "occlusion":
+                return this.getSharedMaterial("occlusion", () => {
+                    const material = new StandardMaterial("planeOcclusionMaterial", this._scene);
+                    material.disableColorWrite = true;
+                    material.disableLighting = true;
+                    return material;
+                });
+        }
+    }
+
+
+    getRandomMaterial(planeId: number): StandardMaterial {
+        let material = this._randomMaterials.get(planeId);
+
+        if (material === undefined) {
+            material = new StandardMaterial("mat", this._scene);
+            material.alpha = 0.35;
+            material.diffuseColor = Color3.FromHexString(this._random.fork(planeId).pick(this._theme.planePalette));
+            this._randomMaterials.set(planeId, material);
+        }
+        return material;
+    }
+
+
+    getSharedMaterial(key: string, create: () => Material): Material {
+        let material = this._sharedMaterials.get(key);
+
+        if (material === undefined) {
+            material = create();
+            this._sharedMaterials.set(key, material);
+        }
+        return material;
+    }
+
+
+    /**
+     * Disposes the random tint of a removed plane.
+     * @param planeId The id of the plane.
+     */
+    removePlane(planeId: number) {
+        this._randomMaterials.get(planeId)?.dispose();
+        this._randomMaterials.delete(planeId);
+    }
+
+
+    /**
+     * Disposes the random tints, i.e. when the session ends. The shared materials are kept for the next session.
+     */
+    reset() {
+        this._randomMaterials.forEach((material) => material.dispose());
+        this._randomMaterials.clear();
+    }
+
+
+    /**
+     * Renders the occluding planes first in the "occlusion" visualization, the default order otherwise.
+     * Occluders are told by their material, which only writes depth, so the occluders of other visualizers are sorted first as well.
+     */
+    updateRenderingOrder() {
+        if (this._mode !== "occlusion") {
+            this._scene.setRenderingOrder(0);
+            return;
+        }
+
+        const isOccluder = (subMesh: SubMesh) => subMesh.getMesh().material?.disableColorWrite === true;
+
+        this._scene.setRenderingOrder(0, (a, b) => Number(isOccluder(b)) - Number(isOccluder(a)) || RenderingGroup.PainterSortCompare(a, b));
+    }
+}
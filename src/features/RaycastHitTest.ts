@@ -0,0 +1,84 @@
+import {
+    Matrix,
+    Mesh,
+    Plane,
+    Quaternion,
+    Ray,
+    Scene,
+    Vector3,
+} from '@babylonjs/core';
+
+import type { HitResult } from './HitTestFeature';
+import type { PlaneDetectionFeature } from './PlaneDetectionFeature';
+
+/**
+ * The virtual floor the rays hit while no planes are detected, y = 0 is on the floor.
+ */
+const virtualFloor = Plane.FromPositionAndNormal(Vector3.Zero(), Vector3.Up());
+
+
+/**
+ * Stands in for the WebXR hit test on runtimes that don't support it: casts rays against the detected plane meshes,
+ * or against a virtual floor while there are none, and returns the hits shaped like the hits of the WebXR hit test.
+ * Like those, a hit is rotated so its y axis is the normal of the surface, facing where the ray came from.
+ * The hits have no WebXR hit test result, so they can't create anchors.
+ */
+export class RaycastHitTest {
+    _scene: Scene;
+    _planes: PlaneDetectionFeature | null;
+
+
+    /**
+     * @param scene The scene the plane meshes are in.
+     * @param planes The plane detection module, without it the rays only hit the virtual floor.
+     */
+    constructor(scene: Scene, planes: PlaneDetectionFeature | null) {
+        this._scene = scene;
+        this._planes = planes;
+    }
+
+
+    /**
+     * Casts a ray against the plane meshes, or against the virtual floor if there are none.
+     * @param ray The ray, i.e. the forward ray of the viewer or the pointer ray of a controller.
+     * @param inputSource The input source the ray comes from, if any.
+     * @returns The hits, nearest first.
+     */
+    hitTest(ray: Ray, inputSource?: XRInputSource): HitResult[] {
+        const meshes = this._planes?.getPlaneMeshes().filter((mesh) => mesh.isPickable && mesh.isEnabled()) ?? [];
+
+        if (meshes.length === 0) {
+            const distance = ray.intersectsPlane(virtualFloor);
+
+            return distance !== null && distance <= ray.length ?
+                [this.createResult(ray.origin.add(ray.direction.scale(distance)), Vector3.Up(), ray, inputSource)] : [];
+        }
+
+        return (this._scene.multiPickWithRay(ray, (mesh) => meshes.includes(mesh as Mesh)) ?? [])
+            .sort((a, b) => a.distance - b.distance)
+            .map((pickingInfo) => this.createResult(pickingInfo.pickedPoint!, pickingInfo.getNormal(true) ?? Vector3.Up(), ray, inputSource));
+    }
+
+
+    /**
+     * Creates a hit shaped like a hit of the WebXR hit test.
+     * @param position Where the ray hit the surface.
+     * @param normal The normal of the surface, it is flipped if it faces away from the ray.
+     * @param ray The ray.
+     * @param inputSource The input source the ray comes from, if any.
+     * @returns The hit.
+     */
+    createResult(position: Vector3, normal: Vector3, ray: Ray, inputSource?: XRInputSource): HitResult {
+        const facingNormal = Vector3.Dot(normal, ray.direction) > 0 ? normal.negate() : normal.clone();
+        const rotationQuaternion = Quaternion.FromUnitVectorsToRef(Vector3.Up(), facingNormal.normalize(), new Quaternion());
+
+        return {
+            position: position.clone(),
+            rotationQuaternion,
+            transformationMatrix: Matrix.Compose(Vector3.One(), rotationQuaternion, position),
+            inputSource,
+            isTransient: inputSource !== undefined && inputSource.targetRayMode !== 'tracked-pointer',
+            xrHitResult: null,
+        };
+    }
+}
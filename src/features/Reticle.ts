@@ -0,0 +1,251 @@
+import {
+    Color3,
+    Mesh,
+    MeshBuilder,
+    Nullable,
+    Observer,
+    Quaternion,
+    Scene,
+    StandardMaterial,
+    Vector3,
+} from '@babylonjs/core';
+
+import { Theme, themes } from '../core/Theme';
+import type { HitResult } from './HitTestFeature';
+
+/**
+ * Represents the state of a reticle.
+ * Possible values are "searching" (no hit, the reticle fades out), "valid" (on a surface objects can be placed on),
+ * "invalid" (on a surface the hit test filter rejects), and "placing" (an object is being placed where it is).
+ */
+export type ReticleState = "searching" | "valid" | "invalid" | "placing";
+
+export type ReticleOptions = {
+    /**
+     * How long the reticle takes to follow a hit in seconds, the time constant of the smoothing.
+     * 0 moves it to every hit right away. Defaults to 0.08.
+     */
+    smoothing?: number;
+    /**
+     * How long the reticle takes to fade in or out in seconds. Defaults to 0.15.
+     */
+    fadeDuration?: number;
+    /**
+     * How long the reticle is shown in the "placing" state in seconds. Defaults to 0.3.
+     */
+    placingDuration?: number;
+}
+
+/**
+ * Where an object is placed, the smoothed pose of a reticle.
+ */
+export type ReticlePose = {
+    position: Vector3;
+    rotationQuaternion: Quaternion;
+}
+
+/**
+ * The size of the reticle in each state, relative to its size on a valid surface.
+ */
+const stateScales: Record<ReticleState, number> = {
+    searching: 0.6,
+    valid: 1,
+    invalid: 0.8,
+    placing: 0.7,
+};
+
+
+/**
+ * A torus that shows where a hit test hits the real world.
+ * It follows the hits smoothly instead of jumping to every one of them, fades in and out, and is drawn
+ * differently in each state, see `ReticleState`. The smoothed pose is where objects are placed, see `getPlacementPose`.
+ * The reticle is updated before every frame, by the time the engine took for the last one.
+ */
+export class Reticle {
+    _scene: Scene;
+    _theme: Theme;
+    _mesh: Mesh;
+    _material: StandardMaterial;
+    _smoothing: number;
+    _fadeDuration: number;
+    _placingDuration: number;
+    _state: ReticleState;
+    // The hit the reticle moves towards
+    _target: ReticlePose | null;
+    _pose: ReticlePose;
+    _opacity: number;
+    _enabled: boolean;
+    // The seconds left in the "placing" state
+    _placingTime: number;
+    _renderObserver: Nullable<Observer<Scene>>;
+
+
+    constructor(scene: Scene, name: string, theme: Theme = themes.default, options: ReticleOptions = {}) {
+        this._scene = scene;
+        this._theme = theme;
+        this._smoothing = options.smoothing ?? 0.08;
+        this._fadeDuration = options.fadeDuration ?? 0.15;
+        this._placingDuration = options.placingDuration ?? 0.3;
+        this._state = "searching";
+        this._target = null;
+        this._pose = { position: Vector3.Zero(), rotationQuaternion: Quaternion.Identity() };
+        this._opacity = 0;
+        this._enabled = true;
+        this._placingTime = 0;
+
+        this._material = new StandardMaterial(`${name}Material`, scene);
+        this._mesh = MeshBuilder.CreateTorus(name, { diameter: 0.3, thickness: 0.1 }, scene);
+        this._mesh.material = this._material;
+        this._mesh.isVisible = false;
+        this._mesh.isPickable = false;
+        this._mesh.visibility = 0;
+        this._mesh.rotationQuaternion = new Quaternion();
+
+        this.applyState();
+        this._renderObserver = scene.onBeforeRenderObservable.add(() => this.tick(scene.getEngine().getDeltaTime() / 1000));
+    }
+
+
+    /**
+     * Moves the reticle towards a hit.
+     * @param result The hit, the reticle searches and fades out if it is undefined.
+     * @param valid Whether objects can be placed on the surface that was hit.
+     */
+    update(result: HitResult | undefined, valid = true) {
+        if (result === undefined) {
+            this._target = null;
+        } else {
+            this._target = { position: result.position.clone(), rotationQuaternion: result.rotationQuaternion.clone() };
+
+            // A hidden reticle appears at the hit instead of sliding over from where it was last seen
+            if (this._opacity === 0) {
+                this._pose.position.copyFrom(this._target.position);
+                this._pose.rotationQuaternion.copyFrom(this._target.rotationQuaternion);
+            }
+        }
+
+        if (this._placingTime <= 0) {
+            this.setState(result === undefined ? "searching" : valid ? "valid" : "invalid");
+        }
+        this.updateMesh();
+    }
+
+
+    /**
+     * Shows the reticle in the "placing" state for a moment, i.e. when an object is placed where it is.
+     */
+    place() {
+        this._placingTime = this._placingDuration;
+        this.setState("placing");
+        this.updateMesh();
+    }
+
+
+    /**
+     * Shows or hides the reticle regardless of the hits, it fades like it does when searching.
+     * @param enabled Whether the reticle is shown.
+     */
+    setEnabled(enabled: boolean) {
+        this._enabled = enabled;
+        this.updateMesh();
+    }
+
+
+    /**
+     * Returns where an object is placed: the smoothed pose, which does not jitter with the hits.
+     * @returns The pose, or null if the reticle is not on a surface objects can be placed on.
+     */
+    getPlacementPose(): ReticlePose | null {
+        if (!this._enabled || this._target === null || (this._state !== "valid" && this._state !== "placing")) {
+            return null;
+        }
+        return { position: this._pose.position.clone(), rotationQuaternion: this._pose.rotationQuaternion.clone() };
+    }
+
+
+    /**
+     * Hides the reticle right away and forgets the last hit, i.e. when the session ends.
+     */
+    reset() {
+        this._target = null;
+        this._opacity = 0;
+        this._placingTime = 0;
+        this.setState("searching");
+        this.updateMesh();
+    }
+
+
+    /**
+     * Moves the reticle towards its hit and fades it, called before every frame.
+     * @param deltaTime The seconds since the last frame.
+     */
+    tick(deltaTime: number) {
+        if (this._placingTime > 0) {
+            this._placingTime -= deltaTime;
+
+            if (this._placingTime <= 0) {
+                this.setState(this._target === null ? "searching" : "valid");
+            }
+        }
+
+        if (this._target !== null) {
+            const amount = this._smoothing > 0 ? 1 - Math.exp(-deltaTime / this._smoothing) : 1;
+
+            Vector3.LerpToRef(this._pose.position, this._target.position, amount, this._pose.position);
+            Quaternion.SlerpToRef(this._pose.rotationQuaternion, this._target.rotationQuaternion, amount, this._pose.rotationQuaternion);
+        }
+
+        const step = this._fadeDuration > 0 ? deltaTime / this._fadeDuration : 1;
+
+        this._opacity = this.isShown() ? Math.min(this._opacity + step, 1) : Math.max(this._opacity - step, 0);
+        this.updateMesh();
+    }
+
+
+    /**
+     * Whether the reticle is shown or fading in, rather than hidden or fading out.
+     */
+    isShown(): boolean {
+        return this._enabled && this._target !== null;
+    }
+
+
+    setState(state: ReticleState) {
+        if (this._state !== state) {
+            this._state = state;
+            this.applyState();
+        }
+    }
+
+
+    /**
+     * Draws the reticle in the colour and size of its state.
+     */
+    applyState() {
+        const color = Color3.FromHexString(this._state === "invalid" ? this._theme.invalidMarkerColor : this._theme.markerColor);
+
+        this._material.diffuseColor = color;
+        // The placing reticle glows, so it stands out from the surface it is on
+        this._material.emissiveColor = this._state === "placing" ? color.scale(0.6) : Color3.Black();
+        this._material.alpha = this._state === "searching" ? 0.5 : 1;
+        this._mesh.scaling.setAll(stateScales[this._state]);
+    }
+
+
+    /**
+     * Moves the mesh to the smoothed pose and fades it.
+     */
+    updateMesh() {
+        this._mesh.position.copyFrom(this._pose.position);
+        this._mesh.rotationQuaternion!.copyFrom(this._pose.rotationQuaternion);
+        this._mesh.visibility = this._opacity;
+        this._mesh.isVisible = this.isShown() || this._opacity > 0;
+    }
+
+
+    dispose() {
+        this._scene.onBeforeRenderObservable.remove(this._renderObserver);
+        this._mesh.dispose();
+        this._material.dispose();
+    }
+}
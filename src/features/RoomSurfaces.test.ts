@@ -0,0 +1,40 @@
+import { Matrix, Vector3 } from '@babylonjs/core';
+import { describe, expect, it } from 'vitest';
+
+import { RoomSurfaceAggregator } from './RoomSurfaces';
+
+const rectangle = (x0: number, z0: number, x1: number, z1: number) => [new Vector3(x0, 0, z0), new Vector3(x1, 0, z0), new Vector3(x1, 0, z1), new Vector3(x0, 0, z1)];
+const floorPlane = (id: number, polygon: Vector3[]) => RoomSurfaceAggregator.createSurfacePlane(id, 'floor', 'horizontal', polygon, Matrix.Identity());
+
+
+describe('RoomSurfaceAggregator', () => {
+    it('outlines an L-shaped floor with the union of its planes', () => {
+        const aggregator = new RoomSurfaceAggregator();
+        const planes = [floorPlane(0, rectangle(0, 0, 2, 1)), floorPlane(1, rectangle(0, 1, 1, 3))];
+        const surface = aggregator.createSurface(planes[0], planes);
+
+        expect(surface.polygon).toHaveLength(6);
+        expect(surface.area).toBeCloseTo(4);
+    });
+
+
+    it('bridges the gap between the planes of a surface', () => {
+        const aggregator = new RoomSurfaceAggregator();
+        const planes = [floorPlane(0, rectangle(0, 0, 1, 1)), floorPlane(1, rectangle(1.05, 0, 2, 1))];
+
+        expect(aggregator.canMerge(planes[0], planes[1])).toBe(true);
+
+        const surface = aggregator.createSurface(planes[0], planes);
+
+        expect(surface.polygon).toHaveLength(4);
+        expect(surface.area).toBeCloseTo(2);
+    });
+
+
+    it('keeps the polygon of a surface made of a single plane', () => {
+        const aggregator = new RoomSurfaceAggregator();
+        const plane = floorPlane(0, [...rectangle(0, 0, 2, 1).slice(0, 2), new Vector3(1, 0, 0.2), new Vector3(0, 0, 1)]);
+
+        expect(aggregator.createSurface(plane, [plane]).area).toBeCloseTo(0.7);
+    });
+});
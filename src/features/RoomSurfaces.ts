@@ -0,0 +1,475 @@
+import { IWebXRPlane, Matrix, Vector2, Vector3 } from '@babylonjs/core';
+import polygonClipping, { Ring } from 'polygon-clipping';
+
+import { PlaneClass, PlaneClassifier } from './PlaneClassifier';
+
+/**
+ * A surface of the room, i.e. the floor or a wall, made of one or more detected planes.
+ */
+export type RoomSurface = {
+    /**
+     * The id of the surface, the lowest id of its planes, which is also the plane the surface is aligned with.
+     */
+    id: number;
+    planeClass: PlaneClass;
+    orientation: XRPlaneOrientation;
+    /**
+     * The ids of the planes the surface is made of.
+     */
+    planeIds: number[];
+    /**
+     * The pose of the surface, the pose of the plane with the id of the surface.
+     */
+    transformationMatrix: Matrix;
+    /**
+     * The outline of the surface in surface space, where the surface is spanned by x and z.
+     */
+    polygon: Vector3[];
+    /**
+     * The area of the outline in square meters.
+     */
+    area: number;
+}
+
+/**
+ * What the aggregator keeps of a plane.
+ */
+export type SurfacePlane = {
+    id: number;
+    planeClass: PlaneClass;
+    orientation: XRPlaneOrientation;
+    transformationMatrix: Matrix;
+    /**
+     * The points of the polygon in world space.
+     */
+    points: Vector3[];
+    normal: Vector3;
+}
+
+/**
+ * Merges the planes the runtime reports for the same floor, wall or table into room surfaces.
+ * Planes are merged if they have the same class, lie in the same plane and touch or overlap.
+ * The outline of a surface is the union of its planes, so an L-shaped floor stays L-shaped. The gaps of up to `_maxGap`
+ * between the planes are bridged, so the outline is a single polygon; holes inside it are not kept.
+ * It is only drawn, the planes remain what is picked and collided with.
+ * Which planes touch is kept between updates, only the planes that changed are compared with the others again.
+ */
+export class RoomSurfaceAggregator {
+    _planes: Map<number, SurfacePlane>;
+    _surfaces: RoomSurface[];
+    // The ids of the planes each plane can be merged with
+    _adjacent: Map<number, Set<number>>;
+    // The ids of the planes that were added, changed or removed since the last update
+    _changed: Set<number>;
+    /**
+     * The largest angle between the normals of two planes of a surface, in radians.
+     */
+    _maxAngle: number;
+    /**
+     * The largest distance of a plane from the plane of a surface it is merged into, in meters.
+     */
+    _maxDistance: number;
+    /**
+     * The largest gap between two planes of a surface, in meters.
+     */
+    _maxGap: number;
+
+
+    constructor(maxAngle = 10 * Math.PI / 180, maxDistance = 0.05, maxGap = 0.1) {
+        this._planes = new Map();
+        this._surfaces = [];
+        this._adjacent = new Map();
+        this._changed = new Set();
+        this._maxAngle = maxAngle;
+        this._maxDistance = maxDistance;
+        this._maxGap = maxGap;
+    }
+
+
+    /**
+     * Adds or updates a plane, call `update` afterwards to merge the planes again.
+     * @param plane The detected plane.
+     * @param planeClass The class of the plane.
+     */
+    setPlane(plane: IWebXRPlane, planeClass: PlaneClass) {
+        this._planes.set(plane.id, RoomSurfaceAggregator.createSurfacePlane(plane.id, planeClass, plane.xrPlane.orientation, plane.polygonDefinition, plane.transformationMatrix));
+        this._changed.add(plane.id);
+    }
+
+
+    /**
+     * Changes the class of a plane, i.e. after the floor height changed, call `update` afterwards to merge the planes again.
+     * @param planeId The id of the plane.
+     * @param planeClass The class of the plane.
+     */
+    setPlaneClass(planeId: number, planeClass: PlaneClass) {
+        const plane = this._planes.get(planeId);
+
+        if (plane && plane.planeClass !== planeClass) {
+            plane.planeClass = planeClass;
+            this._changed.add(planeId);
+        }
+    }
+
+
+    /**
+     * Forgets a removed plane, call `update` afterwards to merge the planes again.
+     * @param planeId The id of the removed plane.
+     */
+    removePlane(planeId: number) {
+        this._planes.delete(planeId);
+        this._changed.add(planeId);
+    }
+
+
+    /**
+     * Forgets all planes and surfaces, i.e. when the session ends.
+     */
+    reset() {
+        this._planes.clear();
+        this._surfaces = [];
+        this._adjacent.clear();
+        this._changed.clear();
+    }
+
+
+    /**
+     * Merges the planes into surfaces. Only the planes that changed since the last update are compared with the others,
+     * the surfaces none of whose planes changed are kept.
+     * @returns The surfaces.
+     */
+    update(): RoomSurface[] {
+        this._changed.forEach((planeId) => this.updateAdjacency(planeId));
+
+        const planes = [...this._planes.values()].sort((a, b) => a.id - b.id);
+        const indices = new Map(planes.map((plane, index) => [plane.id, index]));
+        // The index of the first plane of the group each plane belongs to, union-find style
+        const groups = planes.map((_, index) => index);
+        const root = (index: number): number => groups[index] === index ? index : (groups[index] = root(groups[index]));
+
+        planes.forEach((plane, i) => {
+            this._adjacent.get(plane.id)?.forEach((id) => {
+                const j = indices.get(id)!;
+
+                if (root(i) !== root(j)) {
+                    groups[Math.max(root(i), root(j))] = Math.min(root(i), root(j));
+                }
+            });
+        });
+
+        const previous = this._surfaces;
+
+        this._surfaces = planes
+            .filter((_, index) => root(index) === index)
+            .map((reference) => {
+                const group = planes.filter((_, index) => planes[root(index)] === reference);
+                const unchanged = previous.find((surface) => surface.id === reference.id && surface.planeIds.length === group.length
+                    && group.every((plane) => surface.planeIds.includes(plane.id) && !this._changed.has(plane.id)));
+
+                return unchanged ?? this.createSurface(reference, group);
+            });
+        this._changed.clear();
+
+        return this._surfaces;
+    }
+
+
+    /**
+     * Compares a plane that was added or changed with all other planes, or forgets a removed plane.
+     * @param planeId The id of the plane.
+     */
+    updateAdjacency(planeId: number) {
+        const plane = this._planes.get(planeId);
+        const adjacent = (id: number) => this._adjacent.get(id) ?? this._adjacent.set(id, new Set()).get(id)!;
+
+        this._adjacent.get(planeId)?.forEach((id) => this._adjacent.get(id)?.delete(planeId));
+        this._adjacent.delete(planeId);
+
+        if (plane === undefined) {
+            return;
+        }
+
+        adjacent(planeId);
+        this._planes.forEach((other) => {
+            // Compared in the frame of the plane with the lower id, like the surfaces are aligned
+            if (other !== plane && (plane.id < other.id ? this.canMerge(plane, other) : this.canMerge(other, plane))) {
+                adjacent(planeId).add(other.id);
+                adjacent(other.id).add(planeId);
+            }
+        });
+    }
+
+
+    getSurfaces(): RoomSurface[] {
+        return this._surfaces;
+    }
+
+
+    /**
+     * Returns the surface a plane is part of.
+     * @param planeId The id of the plane.
+     * @returns The surface, or null if the plane is unknown.
+     */
+    getSurfaceOfPlane(planeId: number): RoomSurface | null {
+        return this._surfaces.find((surface) => surface.planeIds.includes(planeId)) ?? null;
+    }
+
+
+    /**
+     * Creates what the aggregator keeps of a plane.
+     * @param id The id of the plane.
+     * @param planeClass The class of the plane.
+     * @param orientation The orientation of the plane.
+     * @param polygon The polygon in plane space.
+     * @param transformationMatrix The pose of the plane.
+     * @returns The plane in world space.
+     */
+    static createSurfacePlane(id: number, planeClass: PlaneClass, orientation: XRPlaneOrientation, polygon: Vector3[], transformationMatrix: Matrix): SurfacePlane {
+        return {
+            id,
+            planeClass,
+            orientation,
+            transformationMatrix: transformationMatrix.clone(),
+            points: polygon.map((p) => Vector3.TransformCoordinates(p, transformationMatrix)),
+            normal: Vector3.TransformNormal(Vector3.Up(), transformationMatrix).normalize(),
+        };
+    }
+
+
+    /**
+     * Whether two planes are parts of the same surface.
+     */
+    canMerge(a: SurfacePlane, b: SurfacePlane): boolean {
+        if (a.planeClass !== b.planeClass || a.orientation !== b.orientation) {
+            return false;
+        }
+        if (Vector3.Dot(a.normal, b.normal) < Math.cos(this._maxAngle)) {
+            return false;
+        }
+
+        const origin = a.transformationMatrix.getTranslation();
+
+        if (b.points.some((p) => Math.abs(Vector3.Dot(p.subtract(origin), a.normal)) > this._maxDistance)) {
+            return false;
+        }
+
+        const toSurface = a.transformationMatrix.clone().invert();
+
+        return this.areAdjacent(this.toSurfaceSpace(a.points, toSurface), this.toSurfaceSpace(b.points, toSurface));
+    }
+
+
+    /**
+     * Whether two polygons overlap or are at most `_maxGap` apart.
+     */
+    areAdjacent(a: Vector2[], b: Vector2[]): boolean {
+        if (a.some((p) => isInside(p, b)) || b.some((p) => isInside(p, a))) {
+            return true;
+        }
+
+        for (let i = 0; i < a.length; i++) {
+            const a1 = a[i];
+            const a2 = a[(i + 1) % a.length];
+
+            for (let j = 0; j < b.length; j++) {
+                const b1 = b[j];
+                const b2 = b[(j + 1) % b.length];
+
+                if (segmentsIntersect(a1, a2, b1, b2) ||
+                    Math.min(distanceToSegment(a1, b1, b2), distanceToSegment(b1, a1, a2)) <= this._maxGap) {
+                    return true;
+                }
+            }
+        }
+        return false;
+    }
+
+
+    /**
+     * Creates the surface of a group of planes, aligned with the plane with the lowest id.
+     * @param reference The plane with the lowest id.
+     * @param planes The planes of the group.
+     * @returns The surface.
+     */
+    createSurface(reference: SurfacePlane, planes: SurfacePlane[]): RoomSurface {
+        const toSurface = reference.transformationMatrix.clone().invert();
+        const outline = this.mergePolygons(planes.map((plane) => this.toSurfaceSpace(plane.points, toSurface)));
+
+        // Same winding as the polygons of the runtime, so the faces of the surface point the same way
+        if (signedArea(outline) * signedArea(this.toSurfaceSpace(reference.points, toSurface)) < 0) {
+            outline.reverse();
+        }
+
+        const polygon = outline.map((p) => new Vector3(p.x, 0, p.y));
+
+        return {
+            id: reference.id,
+            planeClass: reference.planeClass,
+            orientation: reference.orientation,
+            planeIds: planes.map((plane) => plane.id),
+            transformationMatrix: reference.transformationMatrix.clone(),
+            polygon,
+            area: PlaneClassifier.getArea(polygon),
+        };
+    }
+
+
+    /**
+     * Merges the polygons of the planes of a surface into its outline.
+     * The polygons are joined with the gaps between them, then the outer ring of their union is the outline.
+     * @param polygons The polygons in surface space.
+     * @returns The outline, the largest piece if some polygons are not within `_maxGap` of the others.
+     */
+    mergePolygons(polygons: Vector2[][]): Vector2[] {
+        if (polygons.length === 1) {
+            return polygons[0].slice();
+        }
+
+        const bridges: Vector2[][] = [];
+
+        for (let i = 0; i < polygons.length; i++) {
+            for (let j = i + 1; j < polygons.length; j++) {
+                const bridge = this.bridgeGap(polygons[i], polygons[j]);
+
+                if (bridge !== null) {
+                    bridges.push(bridge);
+                }
+            }
+        }
+
+        const rings = [...polygons, ...bridges].map((polygon): Ring => polygon.map((p) => [p.x, p.y]));
+        const union = polygonClipping.union([rings[0]], ...rings.slice(1).map((ring) => [ring]));
+        const outer = union.map((polygon) => polygon[0]).reduce((largest, ring) => Math.abs(ringArea(ring)) > Math.abs(ringArea(largest)) ? ring : largest);
+
+        // The rings of the union are closed, their last point repeats the first
+        return outer.slice(0, -1).map(([x, y]) => new Vector2(x, y));
+    }
+
+
+    /**
+     * Returns the polygon that fills the gap between two polygons, where they are at most `_maxGap` apart.
+     * @returns The convex hull of the points of each polygon near the other one and their closest points on it,
+     * or null if the polygons are further apart or overlap without a gap.
+     */
+    bridgeGap(a: Vector2[], b: Vector2[]): Vector2[] | null {
+        const points: Vector2[] = [];
+
+        for (const [from, to] of [[a, b], [b, a]]) {
+            for (const p of from) {
+                const closest = closestPointOnPolygon(p, to);
+
+                if (!isInside(p, to) && Vector2.Distance(p, closest) <= this._maxGap) {
+                    points.push(p, closest);
+                }
+            }
+        }
+
+        const hull = convexHull(points);
+
+        return hull.length >= 3 && Math.abs(signedArea(hull)) > 1e-6 ? hull : null;
+    }
+
+
+    /**
+     * Transforms world space points into the x/z coordinates of a surface.
+     */
+    toSurfaceSpace(points: Vector3[], toSurface: Matrix): Vector2[] {
+        return points.map((p) => {
+            const local = Vector3.TransformCoordinates(p, toSurface);
+            return new Vector2(local.x, local.z);
+        });
+    }
+}
+
+
+/**
+ * Whether a point lies inside a polygon, by counting the edges a ray from the point crosses.
+ */
+function isInside(point: Vector2, polygon: Vector2[]): boolean {
+    let inside = false;
+
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+
+        if ((a.y > point.y) !== (b.y > point.y) && point.x < (b.x - a.x) * (point.y - a.y) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+
+function cross(o: Vector2, a: Vector2, b: Vector2): number {
+    return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+}
+
+
+function signedArea(polygon: Vector2[]): number {
+    return polygon.reduce((area, p, index) => {
+        const next = polygon[(index + 1) % polygon.length];
+        return area + p.x * next.y - next.x * p.y;
+    }, 0) / 2;
+}
+
+
+function segmentsIntersect(a1: Vector2, a2: Vector2, b1: Vector2, b2: Vector2): boolean {
+    return cross(a1, a2, b1) * cross(a1, a2, b2) < 0 && cross(b1, b2, a1) * cross(b1, b2, a2) < 0;
+}
+
+
+function ringArea(ring: Ring): number {
+    return signedArea(ring.map(([x, y]) => new Vector2(x, y)));
+}
+
+
+function closestPointOnSegment(point: Vector2, a: Vector2, b: Vector2): Vector2 {
+    const ab = b.subtract(a);
+    const lengthSquared = ab.lengthSquared();
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, Vector2.Dot(point.subtract(a), ab) / lengthSquared));
+
+    return a.add(ab.scale(t));
+}
+
+
+function closestPointOnPolygon(point: Vector2, polygon: Vector2[]): Vector2 {
+    return polygon
+        .map((a, i) => closestPointOnSegment(point, a, polygon[(i + 1) % polygon.length]))
+        .reduce((closest, p) => Vector2.Distance(point, p) < Vector2.Distance(point, closest) ? p : closest);
+}
+
+
+function distanceToSegment(point: Vector2, a: Vector2, b: Vector2): number {
+    return Vector2.Distance(point, closestPointOnSegment(point, a, b));
+}
+
+
+/**
+ * Calculates the convex hull of points with Andrew's monotone chain algorithm.
+ * @param points The points.
+ * @returns The points of the hull, counter-clockwise.
+ */
+export function convexHull(points: Vector2[]): Vector2[] {
+    const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+    const lower: Vector2[] = [];
+    const upper: Vector2[] = [];
+
+    if (sorted.length < 3) {
+        return sorted;
+    }
+
+    for (const p of sorted) {
+        while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) {
+            lower.pop();
+        }
+        lower.push(p);
+    }
+    for (const p of sorted.reverse()) {
+        while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) {
+            upper.pop();
+        }
+        upper.push(p);
+    }
+
+    return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+}
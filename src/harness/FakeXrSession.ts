@@ -0,0 +1,904 @@
+import {
+    FreeCamera,
+    IWebXRAnchor,
+    IWebXRHitResult,
+    IWebXRPlane,
+    IWebXRVertexData,
+    Matrix,
+    Observable,
+    Quaternion,
+    Scene,
+    TransformNode,
+    Vector3,
+    WebXRDefaultExperience,
+    WebXRFeatureName,
+    WebXRInputSource,
+} from '@babylonjs/core';
+
+import { ReferenceSpaceType } from '../core/types';
+
+/**
+ * The component ids a Quest 3 touch controller reports, in the order the runtime reports them.
+ */
+export const QuestComponentIds = {
+    left: ['xr-standard-trigger', 'xr-standard-squeeze', 'xr-standard-thumbstick', 'x-button', 'y-button', 'thumbrest'],
+    right: ['xr-standard-trigger', 'xr-standard-squeeze', 'xr-standard-thumbstick', 'a-button', 'b-button', 'thumbrest'],
+};
+
+export type FakePlaneArguments = {
+    orientation: XRPlaneOrientation;
+    /**
+     * The polygon of the plane in plane space, only x and z are used.
+     */
+    polygon: Vector3[];
+    position?: Vector3;
+    rotation?: Quaternion;
+    /**
+     * The pose of the plane, takes precedence over position and rotation.
+     */
+    transformationMatrix?: Matrix;
+    semanticLabel?: string;
+}
+
+export type FakePlaneUpdate = {
+    polygon?: Vector3[];
+    position?: Vector3;
+    rotation?: Quaternion;
+    transformationMatrix?: Matrix;
+}
+
+export type FakeMeshArguments = {
+    /**
+     * The vertices of the mesh in mesh space, x, y and z of each vertex.
+     */
+    positions: number[];
+    indices: number[];
+    position?: Vector3;
+    rotation?: Quaternion;
+    semanticLabel?: string;
+}
+
+export type FakeControllerArguments = {
+    handedness: XRHandedness;
+    profileId?: string;
+    componentIds?: string[];
+    /**
+     * "screen" for a transient input, i.e. a touch on the screen of a phone. Defaults to "tracked-pointer".
+     */
+    targetRayMode?: XRTargetRayMode;
+}
+
+/**
+ * A button, trigger or thumbstick of a fake motion controller.
+ */
+export class FakeControllerComponent {
+    id: string;
+    pressed: boolean;
+    touched: boolean;
+    value: number;
+    axes: { x: number, y: number };
+    onButtonStateChangedObservable: Observable<FakeControllerComponent>;
+    onAxisValueChangedObservable: Observable<{ x: number, y: number }>;
+
+
+    constructor(id: string) {
+        this.id = id;
+        this.pressed = false;
+        this.touched = false;
+        this.value = 0;
+        this.axes = { x: 0, y: 0 };
+        this.onButtonStateChangedObservable = new Observable();
+        this.onAxisValueChangedObservable = new Observable();
+    }
+
+
+    isButton(): boolean {
+        return true;
+    }
+
+
+    isAxes(): boolean {
+        return this.id.includes('thumbstick') || this.id.includes('touchpad');
+    }
+}
+
+/**
+ * A fake motion controller with the subset of `WebXRAbstractMotionController` the features use.
+ */
+export class FakeMotionController {
+    handedness: XRHandedness;
+    profileId: string;
+    components: { [id: string]: FakeControllerComponent };
+    _componentIds: string[];
+
+
+    constructor(handedness: XRHandedness, profileId: string, componentIds: string[]) {
+        this.handedness = handedness;
+        this.profileId = profileId;
+        this.components = {};
+        this._componentIds = componentIds;
+
+        componentIds.forEach((id) => this.components[id] = new FakeControllerComponent(id));
+    }
+
+
+    getComponentIds(): string[] {
+        return this._componentIds;
+    }
+
+
+    getComponent(id: string): FakeControllerComponent {
+        return this.components[id];
+    }
+
+
+    getMainComponent(): FakeControllerComponent {
+        return this.components[this._componentIds[0]];
+    }
+}
+
+/**
+ * A fake input source with a real pointer node, so rays created from it can pick meshes.
+ */
+export class FakeInputSource {
+    uniqueId: string;
+    inputSource: { handedness: XRHandedness, targetRayMode: XRTargetRayMode, profiles: string[], targetRaySpace: object };
+    pointer: TransformNode;
+    grip: TransformNode;
+    motionController: FakeMotionController | undefined;
+    onMotionControllerInitObservable: Observable<FakeMotionController>;
+    _motionController: FakeMotionController;
+
+
+    constructor(scene: Scene, id: number, args: FakeControllerArguments) {
+        const profileId = args.profileId ?? 'oculus-touch-v3';
+        const componentIds = args.componentIds ?? QuestComponentIds[args.handedness === 'left' ? 'left' : 'right'];
+
+        this.uniqueId = `controller-${id}-${args.handedness}`;
+        this.inputSource = { handedness: args.handedness, targetRayMode: args.targetRayMode ?? 'tracked-pointer', profiles: [profileId], targetRaySpace: {} };
+        this.pointer = new TransformNode(`${this.uniqueId}-pointer`, scene);
+        this.pointer.rotationQuaternion = new Quaternion();
+        this.grip = new TransformNode(`${this.uniqueId}-grip`, scene);
+        this.motionController = undefined;
+        this.onMotionControllerInitObservable = new Observable();
+        this._motionController = new FakeMotionController(args.handedness, profileId, componentIds);
+    }
+
+
+    /**
+     * Initializes the motion controller, like the runtime does once the controller profile is loaded.
+     */
+    initMotionController() {
+        this.motionController = this._motionController;
+        this.onMotionControllerInitObservable.notifyObservers(this._motionController);
+    }
+
+
+    /**
+     * Points the controller from the origin into the direction.
+     * @param origin The position of the pointer.
+     * @param direction The direction the pointer is facing.
+     */
+    aim(origin: Vector3, direction: Vector3) {
+        this.pointer.position.copyFrom(origin);
+        Quaternion.FromUnitVectorsToRef(Vector3.Forward(this.pointer.getScene().useRightHandedSystem), direction.normalizeToNew(), this.pointer.rotationQuaternion!);
+        this.pointer.computeWorldMatrix(true);
+        this.grip.position.copyFrom(origin);
+        this.grip.rotationQuaternion = this.pointer.rotationQuaternion!.clone();
+    }
+
+
+    /**
+     * Moves the controller to the pose.
+     * @param position The position of the pointer.
+     * @param rotation The rotation of the pointer.
+     */
+    setPose(position: Vector3, rotation: Quaternion) {
+        this.pointer.position.copyFrom(position);
+        this.pointer.rotationQuaternion!.copyFrom(rotation);
+        this.pointer.computeWorldMatrix(true);
+        this.grip.position.copyFrom(position);
+        this.grip.rotationQuaternion = rotation.clone();
+    }
+}
+
+/**
+ * A fake of the WebXR plane detector, planes are added, updated and removed by hand.
+ */
+export class FakePlaneDetector {
+    readonly xrNativeFeatureName = "plane-detection";
+    onPlaneAddedObservable: Observable<IWebXRPlane>;
+    onPlaneUpdatedObservable: Observable<IWebXRPlane>;
+    onPlaneRemovedObservable: Observable<IWebXRPlane>;
+    _planes: IWebXRPlane[];
+    _nextId: number;
+
+
+    constructor() {
+        this.onPlaneAddedObservable = new Observable();
+        this.onPlaneUpdatedObservable = new Observable();
+        this.onPlaneRemovedObservable = new Observable();
+        this._planes = [];
+        this._nextId = 0;
+    }
+
+
+    isCompatible(): boolean {
+        return true;
+    }
+
+
+    /**
+     * Adds a plane, like the runtime does when it detects one.
+     * @param args The orientation, polygon and pose of the plane.
+     * @returns The plane.
+     */
+    addPlane(args: FakePlaneArguments): IWebXRPlane {
+        const xrPlane = {
+            orientation: args.orientation,
+            polygon: [],
+            lastChangedTime: 0,
+            semanticLabel: args.semanticLabel,
+        } as unknown as XRPlane;
+
+        const plane: IWebXRPlane = {
+            id: this._nextId++,
+            polygonDefinition: args.polygon.map((p) => p.clone()),
+            transformationMatrix: args.transformationMatrix?.clone() ?? Matrix.Compose(Vector3.One(), args.rotation ?? Quaternion.Identity(), args.position ?? Vector3.Zero()),
+            xrPlane: xrPlane,
+        };
+
+        this._planes.push(plane);
+        this.onPlaneAddedObservable.notifyObservers(plane);
+
+        return plane;
+    }
+
+
+    /**
+     * Updates the polygon and/or the pose of a plane.
+     * @param plane The plane to update.
+     * @param update The new polygon and pose, properties which are not defined did not change.
+     */
+    updatePlane(plane: IWebXRPlane, update: FakePlaneUpdate = {}) {
+        if (update.polygon) {
+            plane.polygonDefinition = update.polygon.map((p) => p.clone());
+        }
+        if (update.transformationMatrix) {
+            plane.transformationMatrix = update.transformationMatrix.clone();
+        } else if (update.position || update.rotation) {
+            const scaling = new Vector3();
+            const currentRotation = new Quaternion();
+            const currentPosition = new Vector3();
+            plane.transformationMatrix.decompose(scaling, currentRotation, currentPosition);
+            plane.transformationMatrix = Matrix.Compose(scaling, update.rotation ?? currentRotation, update.position ?? currentPosition);
+        }
+        (plane.xrPlane as { lastChangedTime: number }).lastChangedTime++;
+        this.onPlaneUpdatedObservable.notifyObservers(plane);
+    }
+
+
+    /**
+     * Removes a plane, like the runtime does when it loses track of one.
+     * @param plane The plane to remove.
+     */
+    removePlane(plane: IWebXRPlane) {
+        this._planes = this._planes.filter((p) => p !== plane);
+        this.onPlaneRemovedObservable.notifyObservers(plane);
+    }
+}
+
+/**
+ * A fake of the WebXR mesh detector, meshes are added, updated and removed by hand.
+ * The vertices are passed in the coordinate system of the scene, as the detector converts them.
+ */
+export class FakeMeshDetector {
+    readonly xrNativeFeatureName = "mesh-detection";
+    onMeshAddedObservable: Observable<IWebXRVertexData>;
+    onMeshUpdatedObservable: Observable<IWebXRVertexData>;
+    onMeshRemovedObservable: Observable<IWebXRVertexData>;
+    _meshes: IWebXRVertexData[];
+    _nextId: number;
+
+
+    constructor() {
+        this.onMeshAddedObservable = new Observable();
+        this.onMeshUpdatedObservable = new Observable();
+        this.onMeshRemovedObservable = new Observable();
+        this._meshes = [];
+        this._nextId = 0;
+    }
+
+
+    isCompatible(): boolean {
+        return true;
+    }
+
+
+    /**
+     * Adds a mesh, like the runtime does when it detects one.
+     * @param args The vertices, pose and label of the mesh.
+     * @returns The mesh.
+     */
+    addMesh(args: FakeMeshArguments): IWebXRVertexData {
+        const mesh: IWebXRVertexData = {
+            id: this._nextId++,
+            xrMesh: { lastChangedTime: 0, semanticLabel: args.semanticLabel } as unknown as XRMesh,
+            positions: new Float32Array(args.positions),
+            indices: new Uint32Array(args.indices),
+            transformationMatrix: Matrix.Compose(Vector3.One(), args.rotation ?? Quaternion.Identity(), args.position ?? Vector3.Zero()),
+        };
+
+        this._meshes.push(mesh);
+        this.onMeshAddedObservable.notifyObservers(mesh);
+
+        return mesh;
+    }
+
+
+    /**
+     * Replaces the vertices and/or the pose of a mesh.
+     * @param mesh The mesh to update.
+     * @param update The new vertices and pose, properties which are not defined did not change.
+     */
+    updateMesh(mesh: IWebXRVertexData, update: Partial<Omit<FakeMeshArguments, "semanticLabel">> = {}) {
+        if (update.positions && update.indices) {
+            mesh.positions = new Float32Array(update.positions);
+            mesh.indices = new Uint32Array(update.indices);
+        }
+        if (update.position || update.rotation) {
+            mesh.transformationMatrix = Matrix.Compose(Vector3.One(), update.rotation ?? Quaternion.Identity(), update.position ?? Vector3.Zero());
+        }
+        (mesh.xrMesh as { lastChangedTime: number }).lastChangedTime++;
+        this.onMeshUpdatedObservable.notifyObservers(mesh);
+    }
+
+
+    /**
+     * Removes a mesh, like the runtime does when it loses track of one.
+     * @param mesh The mesh to remove.
+     */
+    removeMesh(mesh: IWebXRVertexData) {
+        this._meshes = this._meshes.filter((m) => m !== mesh);
+        this.onMeshRemovedObservable.notifyObservers(mesh);
+    }
+}
+
+/**
+ * A fake of a WebXR hit test source, along the target ray of a controller or for the transient inputs.
+ */
+export class FakeHitTestSource {
+    space: object | null;
+    results: XRHitTestResult[];
+    transientResults: Map<XRInputSource, XRHitTestResult[]>;
+    cancelled: boolean;
+
+
+    constructor(space: object | null) {
+        this.space = space;
+        this.results = [];
+        this.transientResults = new Map();
+        this.cancelled = false;
+    }
+
+
+    cancel() {
+        this.cancelled = true;
+    }
+}
+
+/**
+ * A fake of the WebXR hit test feature, results are emitted by hand.
+ * It also grants the hit test sources the session is asked for, their results are set with `FakeXrSession.emitInputHitTestResults`.
+ */
+export class FakeHitTest {
+    readonly xrNativeFeatureName = "hit-test";
+    onHitTestResultObservable: Observable<IWebXRHitResult[]>;
+    _sources: FakeHitTestSource[];
+
+
+    constructor() {
+        this.onHitTestResultObservable = new Observable();
+        this._sources = [];
+    }
+
+
+    isCompatible(): boolean {
+        return true;
+    }
+
+
+    /**
+     * Grants a hit test source, like `XRSession.requestHitTestSource`.
+     * @param options The options, only the space is used.
+     * @returns A promise that resolves with the source.
+     */
+    async requestHitTestSource(options: XRHitTestOptionsInit): Promise<XRHitTestSource> {
+        const source = new FakeHitTestSource(options.space);
+
+        this._sources.push(source);
+
+        return source as unknown as XRHitTestSource;
+    }
+
+
+    /**
+     * Grants a hit test source for the transient inputs, like `XRSession.requestHitTestSourceForTransientInput`.
+     * @returns A promise that resolves with the source.
+     */
+    async requestHitTestSourceForTransientInput(): Promise<XRTransientInputHitTestSource> {
+        const source = new FakeHitTestSource(null);
+
+        this._sources.push(source);
+
+        return source as unknown as XRTransientInputHitTestSource;
+    }
+
+
+    /**
+     * Sets the results the sources of an input report from now on.
+     * @param inputSource The input source.
+     * @param results The results, nearest first.
+     */
+    setInputResults(inputSource: FakeInputSource["inputSource"], results: XRHitTestResult[]) {
+        this._sources = this._sources.filter((source) => !source.cancelled);
+        this._sources.forEach((source) => {
+            if (source.space === null && inputSource.targetRayMode === 'screen') {
+                source.transientResults.set(inputSource as unknown as XRInputSource, results);
+            } else if (source.space === inputSource.targetRaySpace) {
+                source.results = results;
+            }
+        });
+    }
+
+
+    /**
+     * Creates a frame that reports the results of the sources.
+     * @returns The frame.
+     */
+    createFrame(): XRFrame {
+        return {
+            getHitTestResults: (source: FakeHitTestSource) => source.results,
+            getHitTestResultsForTransientInput: (source: FakeHitTestSource) => [...source.transientResults]
+                .map(([inputSource, results]) => ({ inputSource, results })),
+        } as unknown as XRFrame;
+    }
+
+
+    /**
+     * Emits one hit test result per position, an empty array means nothing was hit.
+     * @param hits The positions and rotations of the hit points.
+     */
+    emitResults(hits: { position: Vector3, rotation?: Quaternion }[]): IWebXRHitResult[] {
+        const results = hits.map((hit) => {
+            const rotationQuaternion = hit.rotation ?? Quaternion.Identity();
+            return {
+                position: hit.position.clone(),
+                rotationQuaternion: rotationQuaternion,
+                transformationMatrix: Matrix.Compose(Vector3.One(), rotationQuaternion, hit.position),
+                xrHitResult: {} as XRHitTestResult,
+            } as IWebXRHitResult;
+        });
+
+        this.onHitTestResultObservable.notifyObservers(results);
+
+        return results;
+    }
+}
+
+/**
+ * A fake of the WebXR anchor system, anchors are created immediately at the requested pose.
+ */
+export class FakeAnchorSystem {
+    readonly xrNativeFeatureName = "anchors";
+    onAnchorAddedObservable: Observable<IWebXRAnchor>;
+    onAnchorUpdatedObservable: Observable<IWebXRAnchor>;
+    onAnchorRemovedObservable: Observable<IWebXRAnchor>;
+    anchors: IWebXRAnchor[];
+    _compatible: boolean;
+    _nextId: number;
+
+
+    constructor(compatible: boolean) {
+        this.onAnchorAddedObservable = new Observable();
+        this.onAnchorUpdatedObservable = new Observable();
+        this.onAnchorRemovedObservable = new Observable();
+        this.anchors = [];
+        this._compatible = compatible;
+        this._nextId = 0;
+    }
+
+
+    /**
+     * Whether the anchor system is compatible with the session, configurable through `anchorsCompatible`.
+     */
+    isCompatible(): boolean {
+        return this._compatible;
+    }
+
+
+    /**
+     * Adds an anchor at the position and notifies the observers right away.
+     * @param position The position of the anchor.
+     * @param rotationQuaternion The rotation of the anchor.
+     * @returns A promise that resolves with the anchor.
+     */
+    async addAnchorAtPositionAndRotationAsync(position: Vector3, rotationQuaternion: Quaternion = new Quaternion()): Promise<IWebXRAnchor> {
+        const anchor: IWebXRAnchor = {
+            id: this._nextId++,
+            transformationMatrix: Matrix.Compose(Vector3.One(), rotationQuaternion, position),
+            xrAnchor: {} as XRAnchor,
+            remove: () => {
+                this.anchors = this.anchors.filter((a) => a !== anchor);
+                this.onAnchorRemovedObservable.notifyObservers(anchor);
+            },
+        };
+
+        this.anchors.push(anchor);
+        this.onAnchorAddedObservable.notifyObservers(anchor);
+
+        return anchor;
+    }
+}
+
+/**
+ * A stand-in for `XRRigidTransform`, which only exists in browsers implementing WebXR.
+ */
+export class FakeRigidTransform {
+    position: DOMPointReadOnly;
+
+
+    constructor(position: DOMPointInit = {}) {
+        this.position = { x: position.x ?? 0, y: position.y ?? 0, z: position.z ?? 0, w: 1 } as DOMPointReadOnly;
+    }
+}
+
+/**
+ * A fake of a WebXR reference space, which keeps track of the offsets applied to it.
+ */
+export class FakeReferenceSpace {
+    type: ReferenceSpaceType;
+    offset: Vector3;
+
+
+    constructor(type: ReferenceSpaceType, offset: Vector3 = Vector3.Zero()) {
+        this.type = type;
+        this.offset = offset;
+    }
+
+
+    getOffsetReferenceSpace(originOffset: XRRigidTransform): FakeReferenceSpace {
+        const position = originOffset.position;
+
+        return new FakeReferenceSpace(this.type, this.offset.add(new Vector3(position.x, position.y, position.z)));
+    }
+}
+
+/**
+ * A fake of the WebXR session manager, the session grants only the supported reference space types.
+ */
+export class FakeSessionManager {
+    onXRSessionInit: Observable<XRSession>;
+    onXRSessionEnded: Observable<unknown>;
+    onXRFrameObservable: Observable<XRFrame>;
+    session: {
+        requestReferenceSpace: (type: ReferenceSpaceType) => Promise<FakeReferenceSpace>;
+        requestHitTestSource: (options: XRHitTestOptionsInit) => Promise<XRHitTestSource>;
+        requestHitTestSourceForTransientInput: () => Promise<XRTransientInputHitTestSource>;
+        enabledFeatures: string[];
+    };
+    referenceSpace: FakeReferenceSpace | null;
+    baseReferenceSpace: FakeReferenceSpace | null;
+    viewerReferenceSpace: FakeReferenceSpace | null;
+    _supportedReferenceSpaceTypes: ReferenceSpaceType[];
+
+
+    constructor(supportedReferenceSpaceTypes: ReferenceSpaceType[], hitTest: FakeHitTest) {
+        this.onXRSessionInit = new Observable();
+        this.onXRSessionEnded = new Observable();
+        this.onXRFrameObservable = new Observable();
+        this.referenceSpace = null;
+        this.baseReferenceSpace = null;
+        this.viewerReferenceSpace = null;
+        this._supportedReferenceSpaceTypes = supportedReferenceSpaceTypes;
+        this.session = {
+            requestReferenceSpace: async (type: ReferenceSpaceType) => {
+                if (type !== "viewer" && !this._supportedReferenceSpaceTypes.includes(type)) {
+                    throw new Error(`reference space type not supported - ${type}`);
+                }
+                return new FakeReferenceSpace(type);
+            },
+            requestHitTestSource: (options: XRHitTestOptionsInit) => hitTest.requestHitTestSource(options),
+            requestHitTestSourceForTransientInput: () => hitTest.requestHitTestSourceForTransientInput(),
+            enabledFeatures: [],
+        };
+    }
+
+
+    /**
+     * The native names of the WebXR features the session was granted, like `WebXRSessionManager.enabledFeatures`.
+     */
+    get enabledFeatures(): string[] {
+        return this.session.enabledFeatures;
+    }
+
+
+    /**
+     * Requests the reference space without any fallback, the experience replaces this with its fallback chain.
+     * @param type The reference space type.
+     * @returns A promise that resolves with the reference space.
+     */
+    async setReferenceSpaceTypeAsync(type: ReferenceSpaceType = "local-floor"): Promise<FakeReferenceSpace> {
+        this.viewerReferenceSpace = await this.session.requestReferenceSpace("viewer");
+        this.referenceSpace = this.baseReferenceSpace = await this.session.requestReferenceSpace(type);
+
+        return this.referenceSpace;
+    }
+}
+
+export type FakeXrSessionArguments = {
+    /**
+     * Names of WebXR features the runtime lacks. Enabling one of them throws if it is required,
+     * an optional one is returned but left out of the enabled features of the session, like a runtime that lacks it does.
+     */
+    unsupportedFeatures?: string[];
+    anchorsCompatible?: boolean;
+    /**
+     * The reference space types the fake session grants, all of them by default. "viewer" is always granted.
+     */
+    supportedReferenceSpaceTypes?: ReferenceSpaceType[];
+}
+
+/**
+ * A fake of the WebXR default experience with fakes for plane and mesh detection, hit testing,
+ * anchors and controller input, so the experience can run on a NullEngine without a headset.
+ */
+export class FakeXrSession {
+    _scene: Scene;
+    camera: FreeCamera;
+    planes: FakePlaneDetector;
+    meshes: FakeMeshDetector;
+    hitTest: FakeHitTest;
+    anchors: FakeAnchorSystem;
+    controllers: FakeInputSource[];
+    sessionManager: FakeSessionManager;
+    onXRSessionInit: Observable<XRSession>;
+    onXRSessionEnded: Observable<unknown>;
+    onControllerAddedObservable: Observable<FakeInputSource>;
+    onControllerRemovedObservable: Observable<FakeInputSource>;
+    _unsupportedFeatures: string[];
+    _enabledFeatures: { [name: string]: unknown };
+    _nextControllerId: number;
+
+
+    constructor(scene: Scene, args: FakeXrSessionArguments = {}) {
+        this._scene = scene;
+        this.camera = new FreeCamera('fakeXrCamera', new Vector3(0, 1.6, 0), scene);
+        this.planes = new FakePlaneDetector();
+        this.meshes = new FakeMeshDetector();
+        this.hitTest = new FakeHitTest();
+        this.anchors = new FakeAnchorSystem(args.anchorsCompatible ?? true);
+        this.controllers = [];
+        this.sessionManager = new FakeSessionManager(args.supportedReferenceSpaceTypes ?? ["local-floor", "bounded-floor", "unbounded", "local"], this.hitTest);
+        this.onXRSessionInit = this.sessionManager.onXRSessionInit;
+        this.onXRSessionEnded = this.sessionManager.onXRSessionEnded;
+        this.onControllerAddedObservable = new Observable();
+        this.onControllerRemovedObservable = new Observable();
+        this._unsupportedFeatures = args.unsupportedFeatures ?? [];
+        this._enabledFeatures = {};
+        this._nextControllerId = 0;
+        // Added first, so the planes, meshes, anchors and controllers are removed before other observers are notified,
+        // as the features manager of the WebXR default experience detaches its features
+        this.onXRSessionEnded.add(() => this.detachFeatures());
+
+        const global = globalThis as { XRRigidTransform?: unknown };
+        global.XRRigidTransform = global.XRRigidTransform ?? FakeRigidTransform;
+    }
+
+
+    /**
+     * Returns an object shaped like the WebXR default experience the features work with.
+     */
+    asDefaultExperience(): WebXRDefaultExperience {
+        const featuresManager = {
+            enableFeature: (name: string, version?: unknown, options?: unknown, attachIfPossible?: boolean, required = true) => this.enableFeature(name, required),
+            getEnabledFeature: (name: string) => this._enabledFeatures[name],
+            disableFeature: (name: string) => delete this._enabledFeatures[name],
+        };
+
+        return {
+            baseExperience: {
+                camera: this.camera,
+                featuresManager: featuresManager,
+                sessionManager: this.sessionManager,
+            },
+            input: {
+                controllers: this.controllers,
+                onControllerAddedObservable: this.onControllerAddedObservable,
+                onControllerRemovedObservable: this.onControllerRemovedObservable,
+            },
+            dispose: () => this.dispose(),
+        } as unknown as WebXRDefaultExperience;
+    }
+
+
+    /**
+     * Removes the controllers and the camera and clears all observers.
+     */
+    dispose() {
+        [...this.controllers].forEach((controller) => this.removeController(controller));
+        this.camera.dispose();
+        this.onXRSessionInit.clear();
+        this.onXRSessionEnded.clear();
+        this.sessionManager.onXRFrameObservable.clear();
+        this.onControllerAddedObservable.clear();
+        this.onControllerRemovedObservable.clear();
+    }
+
+
+    /**
+     * Enables the fake of a WebXR feature.
+     * @param name The name of the feature.
+     * @param required Whether the session requires the feature.
+     * @throws {Error} Throws an error if the feature is unknown, or if it is required and marked as unsupported.
+     */
+    enableFeature(name: string, required = true): unknown {
+        const features: { [name: string]: { xrNativeFeatureName: string } } = {
+            [WebXRFeatureName.PLANE_DETECTION]: this.planes,
+            [WebXRFeatureName.MESH_DETECTION]: this.meshes,
+            [WebXRFeatureName.HIT_TEST]: this.hitTest,
+            [WebXRFeatureName.ANCHOR_SYSTEM]: this.anchors,
+        };
+
+        if (!(name in features)) {
+            throw new Error(`feature not found - ${name}`);
+        }
+
+        if (this._unsupportedFeatures.includes(name)) {
+            if (required) {
+                throw new Error(`required feature not compatible - ${name}`);
+            }
+            // The session starts without it, the feature is returned but never reports anything
+            return features[name];
+        }
+
+        this._enabledFeatures[name] = features[name];
+        this.sessionManager.session.enabledFeatures.push(features[name].xrNativeFeatureName);
+
+        return features[name];
+    }
+
+
+    /**
+     * Starts the session and requests the reference space, like entering immersive mode does.
+     * @param referenceSpaceType The reference space type the UI requests.
+     * @returns A promise that resolves once the reference space is set.
+     */
+    async startSession(referenceSpaceType: ReferenceSpaceType = "local-floor"): Promise<void> {
+        this.onXRSessionInit.notifyObservers(this.sessionManager.session as unknown as XRSession);
+        await this.sessionManager.setReferenceSpaceTypeAsync(referenceSpaceType);
+    }
+
+
+    /**
+     * Ends the session, like leaving immersive mode does.
+     * The planes, meshes, anchors and controllers are removed by the first observer, see `detachFeatures`.
+     */
+    endSession() {
+        this.onXRSessionEnded.notifyObservers(null);
+    }
+
+
+    /**
+     * Removes the planes, meshes, anchors and controllers, as the features of the WebXR default experience do when the session ends.
+     */
+    detachFeatures() {
+        [...this.planes._planes].forEach((plane) => this.planes.removePlane(plane));
+        [...this.meshes._meshes].forEach((mesh) => this.meshes.removeMesh(mesh));
+        [...this.anchors.anchors].forEach((anchor) => anchor.remove());
+        [...this.controllers].forEach((controller) => this.removeController(controller));
+    }
+
+
+    /**
+     * Connects a controller and initializes its motion controller.
+     * @param args The handedness, profile and component ids of the controller.
+     * @returns The fake input source.
+     */
+    addController(args: FakeControllerArguments): FakeInputSource {
+        const controller = new FakeInputSource(this._scene, this._nextControllerId++, args);
+
+        this.controllers.push(controller);
+        this.onControllerAddedObservable.notifyObservers(controller);
+        controller.initMotionController();
+
+        return controller;
+    }
+
+
+    /**
+     * Disconnects a controller.
+     * @param controller The controller to remove.
+     */
+    removeController(controller: FakeInputSource) {
+        this.controllers.splice(this.controllers.indexOf(controller), 1);
+        this.onControllerRemovedObservable.notifyObservers(controller);
+    }
+
+
+    /**
+     * Presses a button of a controller, like the runtime reports it.
+     * @param controller The controller.
+     * @param componentId The id of the component, i.e. "xr-standard-trigger".
+     * @param value The value of the button, triggers are only selected above 0.8.
+     */
+    pressButton(controller: FakeInputSource, componentId: string, value = 1) {
+        this.setButtonState(controller, componentId, true, true, value);
+    }
+
+
+    /**
+     * Releases a button of a controller.
+     * @param controller The controller.
+     * @param componentId The id of the component.
+     */
+    releaseButton(controller: FakeInputSource, componentId: string) {
+        this.setButtonState(controller, componentId, false, false, 0);
+    }
+
+
+    /**
+     * Sets the state of a button of a controller and notifies the observers.
+     * @param controller The controller.
+     * @param componentId The id of the component.
+     * @param pressed Whether the button is pressed.
+     * @param touched Whether the button is touched.
+     * @param value The value of the button.
+     */
+    setButtonState(controller: FakeInputSource, componentId: string, pressed: boolean, touched: boolean, value: number) {
+        const component = controller._motionController.getComponent(componentId);
+
+        component.pressed = pressed;
+        component.touched = touched;
+        component.value = value;
+        component.onButtonStateChangedObservable.notifyObservers(component);
+    }
+
+
+    /**
+     * Lets the hit test sources of a controller or a transient input report hits and renders a frame of the session,
+     * which reports them to the observers of the frames.
+     * @param controller The controller or transient input.
+     * @param hits The positions and rotations of the hit points, nearest first. An empty array means nothing was hit.
+     */
+    emitInputHitTestResults(controller: FakeInputSource, hits: { position: Vector3, rotation?: Quaternion }[]) {
+        const results = hits.map((hit) => {
+            // The poses of the runtime are right-handed
+            const position = hit.position.clone();
+            const rotation = hit.rotation?.clone() ?? Quaternion.Identity();
+            const matrix = Matrix.Compose(Vector3.One(), rotation, position);
+
+            if (!this._scene.useRightHandedSystem) {
+                position.z *= -1;
+                rotation.z *= -1;
+                rotation.w *= -1;
+                matrix.toggleModelMatrixHandInPlace();
+            }
+
+            const transform = { position, orientation: rotation, matrix: new Float32Array(matrix.asArray()) };
+
+            return { getPose: () => ({ transform }) } as unknown as XRHitTestResult;
+        });
+
+        this.hitTest.setInputResults(controller.inputSource, results);
+        this.sessionManager.onXRFrameObservable.notifyObservers(this.hitTest.createFrame());
+    }
+
+
+    /**
+     * Casts the fake input source to the input source type the features work with.
+     */
+    static asInputSource(controller: FakeInputSource): WebXRInputSource {
+        return controller as unknown as WebXRInputSource;
+    }
+}
@@ -0,0 +1,383 @@
+import { IWebXRPlane, Matrix, Ray, Vector3 } from '@babylonjs/core';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { XrFeature } from '../core/XrFeature';
+import { AnchorFeature } from '../features/AnchorFeature';
+import { BoxFeature } from '../features/BoxFeature';
+import { createRoomScan } from '../export/RoomScan';
+import { DoorFeature } from '../features/DoorFeature';
+import { HitTestFeature } from '../features/HitTestFeature';
+import { MeshDetectionFeature } from '../features/MeshDetectionFeature';
+import { PlaneDetectionFeature } from '../features/PlaneDetectionFeature';
+import part7 from '../index_7';
+import { SessionRecorderFeature } from '../recording/SessionRecorderFeature';
+import { SessionReplayer } from '../recording/SessionReplayer';
+import { XrRecordingVersion } from '../recording/XrRecording';
+import part9 from '../index_9';
+import { PlaceholderDoorFeature, XrTestHarness } from './XrTestHarness';
+
+const rectangle = (x0: number, z0: number, x1: number, z1: number) => [new Vector3(x0, 0, z0), new Vector3(x1, 0, z0), new Vector3(x1, 0, z1), new Vector3(x0, 0, z1)];
+const square = [new Vector3(-1, 0, -1), new Vector3(1, 0, -1), new Vector3(1, 0, 1), new Vector3(-1, 0, 1)];
+
+/**
+ * The features of part 9, with the door built from boxes instead of loading the model.
+ */
+const part9Features = () => part9().features!.map((feature) => feature instanceof DoorFeature ? new PlaceholderDoorFeature() : feature);
+
+
+describe('XrTestHarness', () => {
+    let harness: XrTestHarness | null = null;
+
+    afterEach(async () => {
+        await harness?.dispose();
+        harness = null;
+    });
+
+
+    it('disposes the feature modules along with the engine', async () => {
+        const disposed = await XrTestHarness.create({ features: [new PlaneDetectionFeature()] });
+        const planes = disposed.experience.getFeature(PlaneDetectionFeature)!;
+        const dispose = vi.spyOn(planes, 'dispose');
+
+        await disposed.session.startSession();
+        await disposed.dispose();
+
+        expect(dispose).toHaveBeenCalledOnce();
+        expect(planes._removeObservers).toEqual([]);
+        expect(disposed.experience._engine.isDisposed).toBe(true);
+    });
+
+
+    it('creates and updates the meshes of the detected planes', async () => {
+        harness = await XrTestHarness.create({ features: [new PlaneDetectionFeature()] });
+        await harness.session.startSession();
+
+        const planes = harness.experience.getFeature(PlaneDetectionFeature)!;
+        const plane = harness.session.planes.addPlane({ orientation: 'horizontal', polygon: square, position: new Vector3(0, 0.7, -1) });
+        const mesh = planes._planes[plane.id];
+
+        expect(mesh).toBeDefined();
+        expect(mesh.getTotalVertices()).toBeGreaterThan(0);
+        expect(mesh.position.y).toBeCloseTo(0.7);
+
+        harness.session.planes.updatePlane(plane, { polygon: square.map((point) => point.scale(2)) });
+        mesh.computeWorldMatrix(true);
+
+        expect(planes._planes[plane.id]).toBe(mesh);
+        expect(mesh.getBoundingInfo().boundingBox.extendSize.x).toBeCloseTo(2);
+    });
+
+
+    it('picks and collides with the planes of an L-shaped floor instead of the surface', async () => {
+        harness = await XrTestHarness.create({ features: [new PlaneDetectionFeature()] });
+        await harness.session.startSession();
+
+        const planes = harness.experience.getFeature(PlaneDetectionFeature)!;
+        const pick = (x: number, z: number) => harness!.scene.pickWithRay(new Ray(new Vector3(x, 1, z), Vector3.Down()))?.pickedMesh ?? null;
+
+        harness.session.planes.addPlane({ orientation: 'horizontal', polygon: rectangle(0, 0, 2, 1) });
+        harness.session.planes.addPlane({ orientation: 'horizontal', polygon: rectangle(0, 1, 1, 3) });
+
+        const [surface] = planes.getRoomSurfaces('floor');
+        const surfaceMesh = planes.getSurfaceMesh(surface)!;
+
+        expect(surface.planeIds).toEqual([0, 1]);
+        expect(planes.isSurfaceMesh(surfaceMesh)).toBe(true);
+        expect(surfaceMesh.isPickable || surfaceMesh.checkCollisions).toBe(false);
+        expect(pick(1.5, 0.5)).toBe(planes._planes[0]);
+        expect(planes.getDrawnMesh(pick(0.5, 2)!)).toBe(surfaceMesh);
+        // The corner outside of the L is not picked
+        expect(pick(1.5, 1.5)).toBeNull();
+        expect(planes._planes.every((mesh) => mesh.checkCollisions && mesh.visibility === 0)).toBe(true);
+    });
+
+
+    it('only compares the plane that changed with the others when merging the surfaces', async () => {
+        harness = await XrTestHarness.create({ features: [new PlaneDetectionFeature()] });
+        await harness.session.startSession();
+
+        const planes = harness.experience.getFeature(PlaneDetectionFeature)!;
+        const added = [0, 1, 2, 3, 4].map((i) => harness!.session.planes.addPlane({ orientation: 'horizontal', polygon: rectangle(0, 0, 1, 1), position: new Vector3(i * 1.05, 0, 0) }));
+        const canMerge = vi.spyOn(planes._surfaces, 'canMerge');
+
+        harness.session.planes.updatePlane(added[4], { position: new Vector3(10, 0, 0) });
+
+        expect(canMerge).toHaveBeenCalledTimes(4);
+        expect(planes.getRoomSurfaces().map((surface) => surface.planeIds)).toEqual([[0, 1, 2, 3], [4]]);
+    });
+
+
+    it('shows stored planes as provisional planes that are neither picked nor stored again', async () => {
+        harness = await XrTestHarness.create({ features: [new PlaneDetectionFeature()] });
+        await harness.session.startSession();
+
+        const planes = harness.experience.getFeature(PlaneDetectionFeature)!;
+        const table = harness.session.planes.addPlane({ orientation: 'horizontal', polygon: square, position: new Vector3(0, 0.7, 0) });
+        const day = 24 * 60 * 60 * 1000;
+        const scan = { ...createRoomScan(planes), time: new Date(Date.now() - 3.5 * day).toISOString() };
+
+        harness.session.planes.removePlane(table);
+        planes._persistence.createProvisionalPlanes(scan);
+
+        const [mesh] = planes._persistence.getMeshes();
+
+        expect(mesh.metadata.confidence).toBeCloseTo(0.5);
+        expect(planes.isProvisionalMesh(mesh)).toBe(true);
+        expect(mesh.isPickable || mesh.checkCollisions).toBe(false);
+        expect(harness.scene.pickWithRay(new Ray(new Vector3(0, 1, 0), Vector3.Down()))?.pickedMesh ?? null).toBeNull();
+
+        const save = vi.spyOn(planes._persistence._store, 'save').mockResolvedValue();
+
+        harness.session.planes.addPlane({ orientation: 'horizontal', polygon: square, position: new Vector3(5, 0, 0) });
+        planes._persistence._key = 'bounded-floor:test';
+        planes._persistence.save();
+
+        expect(save).toHaveBeenCalledOnce();
+        expect(save.mock.calls[0][1].surfaces).toHaveLength(1);
+    });
+
+
+    it('shows the reticle where the hit test hits', async () => {
+        harness = await XrTestHarness.create({ features: [new PlaneDetectionFeature(), new HitTestFeature()] });
+        await harness.session.startSession();
+
+        const hitTest = harness.experience.getFeature(HitTestFeature)!;
+
+        harness.session.hitTest.emitResults([{ position: new Vector3(0.5, 0, -2) }]);
+        harness.render(10);
+
+        expect(hitTest._reticle!._mesh.isVisible).toBe(true);
+        expect(hitTest._reticle!._mesh.position.equalsWithEpsilon(new Vector3(0.5, 0, -2), 0.01)).toBe(true);
+
+        harness.session.hitTest.emitResults([]);
+
+        expect(hitTest.getPlacementPose()).toBeNull();
+    });
+
+
+    it('anchors the box where a controller selects the floor', async () => {
+        harness = await XrTestHarness.create({ features: part7().features });
+        await harness.session.startSession();
+        harness.session.planes.addPlane({ orientation: 'horizontal', polygon: square.map((point) => point.scale(3)) });
+
+        const box = harness.experience.getFeature(BoxFeature)!._box!;
+        const controller = harness.session.addController({ handedness: 'right' });
+
+        harness.select(controller, new Vector3(0, 1, 0), new Vector3(0, -1, -1));
+        await harness.flush();
+
+        expect(harness.session.anchors.anchors).toHaveLength(1);
+        expect(harness.experience.getFeature(AnchorFeature)!._xrAnchors!.anchors[0].attachedNode).toBe(box.parent);
+        expect(box.getAbsolutePosition().z).toBeLessThan(-0.5);
+    });
+
+
+    it('logs an anchor the runtime rejects', async () => {
+        harness = await XrTestHarness.create({ features: part7().features });
+        await harness.session.startSession();
+        harness.session.planes.addPlane({ orientation: 'horizontal', polygon: square.map((point) => point.scale(3)) });
+
+        const error = vi.spyOn(harness.experience._logger, 'error').mockImplementation(() => undefined);
+        const controller = harness.session.addController({ handedness: 'right' });
+
+        vi.spyOn(harness.session.anchors, 'addAnchorAtPositionAndRotationAsync').mockRejectedValue(new Error('anchor limit'));
+        harness.select(controller, new Vector3(0, 1, 0), new Vector3(0, -1, -1));
+        await harness.flush();
+
+        expect(error).toHaveBeenCalledWith('controllerSelection', 'Unable to anchor the box: anchor limit', expect.any(Error));
+    });
+
+
+    it('reuses the transform node of the box when the box is placed again', async () => {
+        harness = await XrTestHarness.create({ features: part7().features });
+        await harness.session.startSession();
+        harness.session.planes.addPlane({ orientation: 'horizontal', polygon: square.map((point) => point.scale(3)) });
+
+        const box = harness.experience.getFeature(BoxFeature)!._box!;
+        const controller = harness.session.addController({ handedness: 'right' });
+
+        harness.select(controller, new Vector3(0, 1, 0), new Vector3(0, -1, -1));
+        await harness.flush();
+
+        const boxTransformNode = box.parent;
+
+        harness.select(controller, new Vector3(1, 1, 0), new Vector3(0, -1, -1));
+        await harness.flush();
+
+        box.computeWorldMatrix(true);
+
+        expect(box.parent).toBe(boxTransformNode);
+        expect(harness.scene.transformNodes.filter((node) => node.name === 'boxTransformNode')).toHaveLength(1);
+        expect(box.getAbsolutePosition().x).toBeCloseTo(1);
+    });
+
+
+    it('toggles the door with a button once it is placed', async () => {
+        harness = await XrTestHarness.create({ features: part9Features() });
+        await harness.session.startSession();
+        harness.session.planes.addPlane({ orientation: 'horizontal', polygon: square.map((point) => point.scale(3)), semanticLabel: 'floor' });
+
+        const door = harness.experience.getFeature(DoorFeature)!;
+        const controller = harness.session.addController({ handedness: 'right' });
+
+        harness.select(controller, new Vector3(0, 1, 0), new Vector3(0, -1, -1));
+        await harness.flush();
+
+        expect(door._doorIsPlaced).toBe(true);
+        expect(door._doorIsOpen).toBe(false);
+
+        harness.session.pressButton(controller, 'a-button');
+        harness.session.releaseButton(controller, 'a-button');
+
+        expect(door._doorIsOpen).toBe(true);
+
+        harness.session.pressButton(controller, 'a-button');
+
+        expect(door._doorIsOpen).toBe(false);
+    });
+
+
+    it('casts rays against the virtual floor when the session started without hit testing', async () => {
+        harness = await XrTestHarness.create({ features: [new HitTestFeature()], unsupportedFeatures: ['xr-hit-test'] });
+        await harness.session.startSession();
+
+        const hitTest = harness.experience.getFeature(HitTestFeature)!;
+
+        expect(harness.session.sessionManager.enabledFeatures).not.toContain('hit-test');
+        expect(hitTest.usesRaycastFallback()).toBe(true);
+
+        harness.session.camera.setTarget(new Vector3(0, 0, 2));
+        harness.render(1);
+        harness.session.sessionManager.onXRFrameObservable.notifyObservers(harness.session.hitTest.createFrame());
+
+        expect(hitTest._hitTest?.position.y).toBeCloseTo(0);
+        expect(hitTest._hitTest?.position.z).toBeCloseTo(2);
+        expect(hitTest._hitTest?.xrHitResult).toBeNull();
+    });
+
+
+    it('falls back to the planes once the session started without mesh detection', async () => {
+        harness = await XrTestHarness.create({ features: [new PlaneDetectionFeature(), new MeshDetectionFeature()], unsupportedFeatures: ['xr-mesh-detection'] });
+
+        const meshes = harness.experience.getFeature(MeshDetectionFeature)!;
+
+        await harness.session.startSession();
+        harness.session.planes.addPlane({ orientation: 'horizontal', polygon: square });
+
+        expect(harness.experience.getCapabilities().find((capability) => capability.xrFeature === 'xr-mesh-detection')?.enabled).toBe(false);
+        expect(meshes.isFallingBack()).toBe(true);
+        expect(meshes.getRoomMeshes()).toEqual(harness.experience.getFeature(PlaneDetectionFeature)!.getPlaneMeshes());
+    });
+
+
+    it('records every session on its own', async () => {
+        harness = await XrTestHarness.create({ features: [new SessionRecorderFeature(false), new PlaneDetectionFeature()] });
+
+        const recorder = harness.experience.getFeature(SessionRecorderFeature)!;
+
+        await harness.session.startSession();
+        harness.session.planes.addPlane({ orientation: 'horizontal', polygon: square });
+
+        expect(recorder.getRecording().events.map((event) => event.type)).toEqual(['sessionInit', 'planeAdded']);
+
+        harness.session.endSession();
+
+        expect(recorder.getRecording().events).toEqual([]);
+
+        await harness.session.startSession();
+
+        expect(recorder.getRecording().events.map((event) => event.type)).toEqual(['sessionInit']);
+    });
+
+
+    it('replays the pose of the viewer and the detected meshes', async () => {
+        const recorded = await XrTestHarness.create({ features: [new SessionRecorderFeature(false), new MeshDetectionFeature()] });
+        const triangle = { positions: [0, 0, 0, 1, 0, 0, 0, 0, 1], indices: [0, 1, 2] };
+
+        await recorded.session.startSession();
+        recorded.session.camera.position.set(1, 1.6, 2);
+        recorded.render();
+
+        const table = recorded.session.meshes.addMesh({ ...triangle, position: new Vector3(0, 0.7, 1), semanticLabel: 'table' });
+        const chair = recorded.session.meshes.addMesh({ ...triangle, semanticLabel: 'chair' });
+
+        recorded.session.meshes.updateMesh(table, { position: new Vector3(0, 0.75, 1) });
+        recorded.session.meshes.removeMesh(chair);
+
+        const recording = JSON.parse(JSON.stringify(recorded.experience.getFeature(SessionRecorderFeature)!.getRecording()));
+
+        await recorded.dispose();
+
+        expect(recording.events.map((event: { type: string }) => event.type)).toEqual(['sessionInit', 'viewerPose', 'meshAdded', 'meshAdded', 'meshUpdated', 'meshRemoved']);
+
+        harness = await XrTestHarness.create({ features: [new MeshDetectionFeature()] });
+        await new SessionReplayer(recording, harness.session, harness.experience._logger).replayAll();
+
+        const meshes = harness.experience.getFeature(MeshDetectionFeature)!.getRoomMeshes();
+
+        expect(harness.session.camera.position.asArray()).toEqual([1, 1.6, 2]);
+        expect(meshes.length).toBe(1);
+        expect(meshes[0].metadata.semanticLabel).toBe('table');
+        expect(meshes[0].position.y).toBeCloseTo(0.75);
+    });
+
+
+    it('logs a replayed session that fails to start', async () => {
+        harness = await XrTestHarness.create({ features: [] });
+
+        const replayer = new SessionReplayer({ version: XrRecordingVersion, events: [{ time: 0, type: 'sessionInit' }] }, harness.session, harness.experience._logger);
+        const error = vi.spyOn(harness.experience._logger, 'error').mockImplementation(() => undefined);
+
+        vi.spyOn(harness.session, 'startSession').mockRejectedValue(new Error('no session'));
+        await replayer.replayAll();
+
+        expect(error).toHaveBeenCalledWith('replay', 'Unable to start the replayed session: no session', expect.any(Error));
+        expect(replayer.isDone).toBe(true);
+    });
+
+
+    it('replays the events after the start of the session once it started', async () => {
+        harness = await XrTestHarness.create({ features: [new PlaneDetectionFeature()] });
+
+        const planes = harness.experience.getFeature(PlaneDetectionFeature)!;
+        const replayer = new SessionReplayer({ version: XrRecordingVersion, events: [
+            { time: 0, type: 'sessionInit' },
+            { time: 10, type: 'planeAdded', plane: { id: 1, orientation: 'horizontal', polygon: square.map((p) => p.asArray()), transformationMatrix: Array.from(Matrix.Identity().m) } },
+        ] }, harness.session, harness.experience._logger);
+        let referenceSpaceGranted = false;
+
+        vi.spyOn(planes, 'onReferenceSpaceGranted').mockImplementation(() => {
+            referenceSpaceGranted = true;
+        });
+        vi.spyOn(harness.session.planes, 'addPlane').mockImplementation(() => {
+            expect(referenceSpaceGranted).toBe(true);
+            return {} as IWebXRPlane;
+        });
+
+        const replayed = replayer.replayUntil(20);
+
+        expect(harness.session.planes.addPlane).not.toHaveBeenCalled();
+        expect(replayer.isDone).toBe(false);
+
+        await replayed;
+
+        expect(harness.session.planes.addPlane).toHaveBeenCalledOnce();
+        expect(replayer.isDone).toBe(true);
+    });
+
+
+    it('disposes the engine of an experience that fails to start', async () => {
+        const failing = new XrTestHarness({ features: [new class extends XrFeature {
+            readonly name = 'failing';
+
+            async createScene(): Promise<void> {
+                throw new Error('no scene');
+            }
+        }()] });
+
+        vi.spyOn(failing.experience._logger, 'error').mockImplementation(() => undefined);
+
+        await expect(failing.experience.whenReady()).rejects.toThrow('no scene');
+        expect(failing.experience._engine.isDisposed).toBe(true);
+    });
+});
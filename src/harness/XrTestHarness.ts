@@ -0,0 +1,167 @@
+import {
+    Mesh,
+    MeshBuilder,
+    NullEngine,
+    Scene,
+    Vector3,
+} from '@babylonjs/core';
+import earcut from 'earcut';
+
+import { XrExperience } from '../core/XrExperience';
+import { XrFeature } from '../core/XrFeature';
+import { ReferenceSpaceType, SessionModes } from '../core/types';
+import { DoorFeature, DoorMeshes } from '../features/DoorFeature';
+import { FakeInputSource, FakeXrSession, FakeXrSessionArguments } from './FakeXrSession';
+
+export type XrTestHarnessArguments = FakeXrSessionArguments & {
+    debug?: boolean;
+    features?: XrFeature[];
+    /**
+     * The session modes to try, in order of preference.
+     */
+    sessionModes?: SessionModes[];
+    /**
+     * The session modes the fake device supports, all of them by default.
+     * Without any, the experience falls back to the desktop preview and no fake session is created.
+     */
+    supportedSessionModes?: SessionModes[];
+    /**
+     * The reference space types to request, in order of preference, see the `referenceSpaceTypes` argument of the experience.
+     */
+    referenceSpaceTypes?: ReferenceSpaceType[];
+    /**
+     * The seed of the random colours, see the `seed` argument of the experience.
+     */
+    seed?: number;
+}
+
+/**
+ * Boots an `XrExperience` on a NullEngine with a fake XR session, so the feature modules
+ * can be exercised without a GPU or a headset.
+ * The render loop is stopped once the experience is ready, frames are rendered by calling `render`.
+ */
+export class XrTestHarness {
+    _experience: XrExperience;
+    _session: FakeXrSession | null;
+
+
+    /**
+     * Creates the harness and waits until the experience is ready.
+     * @param args The features to compose and the capabilities of the fake session.
+     * @returns A promise that resolves with the harness.
+     */
+    static async create(args: XrTestHarnessArguments = {}): Promise<XrTestHarness> {
+        const harness = new XrTestHarness(args);
+
+        await harness._experience._ready;
+        harness._experience._engine.stopRenderLoop();
+
+        return harness;
+    }
+
+
+    constructor(args: XrTestHarnessArguments) {
+        // The polygon meshes of the planes are triangulated with earcut, which webpack provides as a global in the browser
+        const global = globalThis as { earcut?: unknown };
+        global.earcut = global.earcut ?? earcut;
+
+        this._session = null;
+        this._experience = new XrExperience({
+            debug: args.debug ?? false,
+            features: args.features,
+            engine: new NullEngine(),
+            sessionModes: args.sessionModes,
+            supportedSessionModes: args.supportedSessionModes ?? ["immersive-ar", "immersive-vr", "inline"],
+            referenceSpaceTypes: args.referenceSpaceTypes,
+            seed: args.seed,
+            xrFactory: async (scene: Scene) => {
+                this._session = new FakeXrSession(scene, args);
+                return this._session.asDefaultExperience();
+            },
+        });
+    }
+
+
+    get experience(): XrExperience {
+        return this._experience;
+    }
+
+
+    get session(): FakeXrSession {
+        if (this._session === null) {
+            throw new Error('The XR experience has not been created yet');
+        }
+        return this._session;
+    }
+
+
+    get scene(): Scene {
+        return this._experience._scene;
+    }
+
+
+    /**
+     * Renders the given number of frames.
+     * @param frames The number of frames to render.
+     */
+    render(frames = 1) {
+        for (let i = 0; i < frames; i++) {
+            this._experience._scene.render();
+        }
+    }
+
+
+    /**
+     * Aims a controller and pulls its trigger, then releases it again.
+     * @param controller The controller.
+     * @param origin The position of the pointer.
+     * @param direction The direction the pointer is facing.
+     */
+    select(controller: FakeInputSource, origin: Vector3, direction: Vector3) {
+        controller.aim(origin, direction);
+        this.session.pressButton(controller, controller._motionController.getComponentIds()[0]);
+        this.session.releaseButton(controller, controller._motionController.getComponentIds()[0]);
+    }
+
+
+    /**
+     * Waits for pending promises, i.e. anchors being added, to settle.
+     */
+    async flush(): Promise<void> {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+
+
+    /**
+     * Disposes the experience, which disposes its feature modules, their observers, the scene and the engine.
+     * @returns A promise that resolves when the experience is disposed.
+     */
+    async dispose(): Promise<void> {
+        await this._experience.dispose();
+    }
+}
+
+/**
+ * A door built from boxes instead of the glTF model, as there is no network when running headless.
+ * The meshes are named like the ones of the model, so the door behaves the same.
+ */
+export class PlaceholderDoorFeature extends DoorFeature {
+
+
+    addDoor(): void {
+        const scene = this._experience._scene;
+        const container = new Mesh(DoorMeshes.Container, scene);
+        const doorFrame = MeshBuilder.CreateBox(DoorMeshes.DoorFrame, { width: 1.1, height: 2.1, depth: 0.1 }, scene);
+        const door = MeshBuilder.CreateBox(DoorMeshes.Door, { width: 1, height: 2, depth: 0.05 }, scene);
+        const handle = MeshBuilder.CreateBox(DoorMeshes.Handle, { width: 0.1, height: 0.05, depth: 0.1 }, scene);
+
+        doorFrame.parent = container;
+        door.parent = container;
+        handle.parent = door;
+        doorFrame.position.y = 1.05;
+        door.position.y = 1;
+        handle.position.x = 0.4;
+
+        this.initDoor(scene);
+    }
+}
@@ -0,0 +1,4 @@
+import { Launcher } from './launcher/Launcher';
+import { articleParts } from './launcher/parts';
+
+new Launcher(articleParts).showPartFromUrl();
@@ -1,155 +1,11 @@
-import {
-    Engine,
-    Scene,
-    Vector3,
-    WebXRDefaultExperience,
-    ShadowGenerator,
-    DirectionalLight,
-    IShadowLight,
-    HemisphericLight,
-    WebXRFeaturesManager,
-} from '@babylonjs/core';
+import { Vector3 } from '@babylonjs/core';
 
-import { Inspector } from '@babylonjs/inspector';
-
-type classArguments = {
-    debug: boolean;
-}
-
-/**
- * Represents the available session modes.
- * Possible values are "immersive-ar", "immersive-vr", and "inline".
- */
-type SessionModes = "immersive-ar" | "immersive-vr" | "inline";
-
-/**
- * Represents the type of reference space.
- * Possible values are "local-floor", "bounded-floor", "unbounded", "local", and "viewer".
- */
-type ReferenceSpaceType = "local-floor" | "bounded-floor" | "unbounded" | "local" | "viewer";
-
-
-class XrExperience {
-    _canvas: HTMLCanvasElement;
-    _engine: Engine;
-    _scene: Scene;
-    _debug: boolean;
-    _xr: WebXRDefaultExperience | null;
-    _sessionMode: SessionModes;
-    _referenceSpaceType: ReferenceSpaceType;
-    _optionalFeatures: boolean;
-    _fm: WebXRFeaturesManager | null;
-    _shadowGenerator: ShadowGenerator | null;
-
-    /**
-     * Constructs a new instance of the class.
-     * @throws {string} Throws an error if WebGL is not supported.
-     */
-    constructor(args: classArguments) {
-        if (!Engine.isSupported()) {
-            throw 'WebGL not supported';
-        }
-
-        this._canvas = document.getElementById('canvas') as HTMLCanvasElement;
-        this._engine = new Engine(this._canvas, true);
-        this._scene = new Scene(this._engine);
-        this._debug = args.debug;
-        this._sessionMode = "immersive-ar";
-        this._referenceSpaceType = "local-floor";
-        this._optionalFeatures = true;
-        this._xr = null;
-        this._fm = null;
-        this._shadowGenerator = null;
-
-        this.createXrExperience().then(() => {
-            this.createScene().then(() => {
-                this._engine.runRenderLoop(() => {
-                    this._scene.render();
-                });
-                window.addEventListener('resize', () => {
-                    this._engine.resize();
-                });
-            });
-        }).catch((error) => {
-            console.log(error);
-        });
-    }
-
-
-    /**
-     *  Enables the WebXR default experience helper
-        This enables default XR features such as as session, a camera, xr input, default UI to enter XR and scene transitions.
-        We also configure the session to use AR and floor tracking.
-        All optional features are enabled to allow for the most immersive experience..
-     *  @returns A promise that resolves when the XR experience is created.
-     */
-    async createXrExperience(): Promise<void> {
-        this._xr = await WebXRDefaultExperience.CreateAsync(this._scene, {
-            uiOptions: {
-                sessionMode: this._sessionMode,
-                referenceSpaceType: this._referenceSpaceType,
-                onError: (error) => {
-                    alert(error);
-                }
-            },
-            optionalFeatures: this._optionalFeatures,
-        });
-
-        if (!this._xr.baseExperience) {
-            throw new Error('Unable to create XR experience');
-        }
-    }
-
-
-    /**
-     * Creates the scene for the XR experience.
-     * This function is called once when the scene is first created.
-     * @returns A promise that resolves when the scene is created.
-     */
-    async createScene(): Promise<Scene> {
-
-        this.createLightsAndShadows();
-
-        if (this._debug) Inspector.Show(this._scene, {});
-
-        this._scene.useRightHandedSystem = true;
-
-        return this._scene;
-    }
-
-
-    /**
-     * Creates a shadow generator for the scene.
-     * ! shadowGenerator can only be created with a directional light
-     * @returns A shadow generator.
-     */
-    createLightsAndShadows() {
-        const lights = this.createLights();
-
-        const shadowGenerator = new ShadowGenerator(1024, lights as IShadowLight);
-
-        shadowGenerator.useBlurExponentialShadowMap = true;
-        shadowGenerator.blurKernel = 32;
-
-        this._shadowGenerator = shadowGenerator;
-    }
-
-
-    /**
-     * Creates a light for the scene.
-     * @returns A directional light.
-     */
-    createLights() {
-
-        const directionalLight = new DirectionalLight("directionalLight", new Vector3(0, 10, 0), this._scene);
-        directionalLight.intensity = 0.3;
-
-        const hemiLight = new HemisphericLight("hemisphericLight", new Vector3(0, 0, 1), this._scene);
-        hemiLight.intensity = 0.7;
-
-        return directionalLight;
-    }
-}
-
-new XrExperience({ debug: false });
+import { classArguments } from './core/types';
 
+export default (): classArguments => ({
+    debug: false,
+    lights: {
+        direction: new Vector3(0, 10, 0),
+        hemisphericDirection: new Vector3(0, 0, 1),
+    },
+});
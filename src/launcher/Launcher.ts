@@ -0,0 +1,194 @@
+import { startExperience } from '../core/bootstrap';
+import { errorMessage, Logger } from '../core/Logger';
+import { XrExperience } from '../core/XrExperience';
+import { ArticlePart } from './parts';
+
+/**
+ * Lists the article parts and runs the one selected with `?part=N`, so all parts can be opened from one build.
+ * Switching parts tears the running experience down and starts the next one on a fresh canvas,
+ * without reloading the page. A part that fails to start is logged and shown in place of it.
+ */
+export class Launcher {
+    _parts: ArticlePart[];
+    _experience: XrExperience | null;
+    _partList: HTMLElement | null;
+    _partSelect: HTMLSelectElement | null;
+    _partError: HTMLElement | null;
+    _switching: Promise<void>;
+    _logger: Logger;
+
+
+    constructor(parts: ArticlePart[]) {
+        this._parts = parts;
+        this._experience = null;
+        this._partList = null;
+        this._partSelect = null;
+        this._partError = null;
+        this._switching = Promise.resolve();
+        this._logger = new Logger();
+
+        window.addEventListener('popstate', () => {
+            this.showPartFromUrl();
+        });
+    }
+
+
+    /**
+     * Shows the part the URL points to, or the list of parts if it points to none.
+     * @returns A promise that resolves when the part is started.
+     */
+    showPartFromUrl(): Promise<void> {
+        const id = Number(new URLSearchParams(window.location.search).get('part'));
+        const part = this._parts.find((part) => part.id === id) ?? null;
+
+        // Switches are queued, so a part is only started once the previous one is torn down
+        this._switching = this._switching.then(() => this.showPart(part)).catch((error) => {
+            this._logger.error("launcher", `Unable to start part ${part?.id}: ${errorMessage(error)}`, error);
+            // The engine of the part is disposed, the next part gets a fresh canvas
+            this.replaceCanvas();
+            this.createPartError(part, error);
+        });
+
+        return this._switching;
+    }
+
+
+    /**
+     * Opens a part and adds it to the browser history.
+     * @param part The part to open, or null for the list of parts.
+     * @returns A promise that resolves when the part is started.
+     */
+    openPart(part: ArticlePart | null): Promise<void> {
+        const url = new URL(window.location.href);
+
+        if (part === null) {
+            url.searchParams.delete('part');
+        } else {
+            url.searchParams.set('part', String(part.id));
+        }
+
+        window.history.pushState(null, '', url);
+
+        return this.showPartFromUrl();
+    }
+
+
+    /**
+     * Tears the running part down and starts the given one.
+     * @param part The part to start, or null to show the list of parts.
+     */
+    async showPart(part: ArticlePart | null): Promise<void> {
+        if (this._experience !== null) {
+            const experience = this._experience;
+
+            this._experience = null;
+            await experience.dispose();
+            this.replaceCanvas();
+        }
+
+        this._partList?.remove();
+        this._partList = null;
+        this._partError?.remove();
+        this._partError = null;
+
+        if (part === null) {
+            this._partSelect?.remove();
+            this._partSelect = null;
+            this.createPartList();
+            return;
+        }
+
+        this.createPartSelect(part);
+
+        const module = await part.load();
+
+        this._experience = await startExperience(module.default());
+    }
+
+
+    /**
+     * Shows why a part failed to start, the part select stays to switch to another part.
+     * @param part The part that failed to start.
+     * @param error The error it failed with.
+     */
+    createPartError(part: ArticlePart | null, error: unknown) {
+        const message = document.createElement('p');
+
+        message.id = 'partError';
+        message.setAttribute('role', 'alert');
+        message.textContent = `Unable to start ${part ? `${part.id}. ${part.title}` : 'the part'}: ${errorMessage(error)}`;
+        document.body.appendChild(message);
+
+        this._partError = message;
+    }
+
+
+    /**
+     * Replaces the canvas with a new one, so the next engine doesn't inherit the state of the disposed one.
+     */
+    replaceCanvas() {
+        const canvas = document.getElementById('canvas') as HTMLCanvasElement;
+
+        canvas.replaceWith(canvas.cloneNode(false));
+    }
+
+
+    /**
+     * Creates the list of parts shown when no part is selected.
+     */
+    createPartList() {
+        const list = document.createElement('nav');
+        const items = document.createElement('ol');
+
+        list.id = 'parts';
+        list.innerHTML = '<h1>WebXR with Babylon.js</h1>';
+
+        for (const part of this._parts) {
+            const item = document.createElement('li');
+            const link = document.createElement('a');
+
+            link.href = `?part=${part.id}`;
+            link.textContent = part.title;
+            link.addEventListener('click', (event) => {
+                event.preventDefault();
+                this.openPart(part);
+            });
+
+            item.appendChild(link);
+            items.appendChild(item);
+        }
+
+        list.appendChild(items);
+        document.body.appendChild(list);
+
+        this._partList = list;
+    }
+
+
+    /**
+     * Creates the select to switch between parts while one is running.
+     * @param runningPart The running part.
+     */
+    createPartSelect(runningPart: ArticlePart) {
+        if (this._partSelect === null) {
+            const select = document.createElement('select');
+
+            select.id = 'partSelect';
+            select.add(new Option('All parts', ''));
+
+            for (const part of this._parts) {
+                select.add(new Option(`${part.id}. ${part.title}`, String(part.id)));
+            }
+
+            select.addEventListener('change', () => {
+                this.openPart(this._parts.find((part) => String(part.id) === select.value) ?? null);
+            });
+
+            document.body.appendChild(select);
+
+            this._partSelect = select;
+        }
+
+        this._partSelect.value = String(runningPart.id);
+    }
+}
@@ -0,0 +1,26 @@
+import type { classArguments } from '../core/types';
+
+export type ArticlePart = {
+    id: number;
+    title: string;
+    /**
+     * Loads the part module, which returns the arguments of its experience.
+     * Parts are split into their own chunks, so only the part that is opened is loaded.
+     */
+    load: () => Promise<{ default: () => classArguments }>;
+}
+
+/**
+ * All parts of the article series, in the order of the articles.
+ */
+export const articleParts: ArticlePart[] = [
+    { id: 1, title: 'Introduction to WebXR using Babylon.js', load: () => import('../index_1') },
+    { id: 2, title: 'Plane Detection', load: () => import('../index_2') },
+    { id: 3, title: 'Meshes & Materials', load: () => import('../index_3') },
+    { id: 4, title: 'Hit Testing', load: () => import('../index_4') },
+    { id: 5, title: 'Input/Controllers & Ray Casting', load: () => import('../index_5') },
+    { id: 6, title: 'Animating a Mesh', load: () => import('../index_6') },
+    { id: 7, title: 'Anchors', load: () => import('../index_7') },
+    { id: 8, title: 'Models & Assets', load: () => import('../index_8') },
+    { id: 9, title: 'Asset Handling & Animation', load: () => import('../index_9') },
+];
@@ -0,0 +1,339 @@
+import {
+    IWebXRHitResult,
+    IWebXRPlane,
+    IWebXRVertexData,
+    Matrix,
+    Nullable,
+    Quaternion,
+    Vector3,
+    WebXRFeatureName,
+    WebXRHitTest,
+    WebXRInputSource,
+    WebXRMeshDetector,
+    WebXRPlaneDetector,
+} from '@babylonjs/core';
+
+import { XrFeature } from '../core/XrFeature';
+import { downloadBlob } from '../core/download';
+import { HitTestFeature } from '../features/HitTestFeature';
+import { RecordedMesh, RecordedPlane, XrRecordedEvent, XrRecordedEventData, XrRecording, XrRecordingVersion } from './XrRecording';
+
+/**
+ * Records the pose of the viewer and every plane, mesh, hit test result, controller pose and button event the experience receives,
+ * so the session can be replayed on desktop or in the headless harness.
+ * Every session is recorded on its own, the events are cleared when a session starts and after it ended.
+ * Must be composed before the features that consume the events, as those may mutate them.
+ */
+export class SessionRecorderFeature extends XrFeature {
+    readonly name = 'recorder';
+    _events: XrRecordedEvent[];
+    _startTime: number;
+    _downloadOnSessionEnd: boolean;
+    _poses: Map<string, number[]>;
+    _inSession: boolean;
+
+
+    /**
+     * @param downloadOnSessionEnd Whether the recording is downloaded when the session ends.
+     * Otherwise get it with `getRecording` before the session ends.
+     */
+    constructor(downloadOnSessionEnd = true) {
+        super();
+        this._events = [];
+        this._startTime = 0;
+        this._downloadOnSessionEnd = downloadOnSessionEnd;
+        // The last recorded poses of the viewer and the controllers, by controller id
+        this._poses = new Map();
+        this._inSession = false;
+    }
+
+
+    async createScene(): Promise<void> {
+        this._startTime = performance.now();
+
+        this.recordSession();
+        this.recordViewer();
+        this.recordPlanes();
+        this.recordMeshes();
+        this.recordHitTests();
+        this.recordControllers();
+    }
+
+
+    /**
+     * Returns the recording of the events of the current session so far.
+     */
+    getRecording(): XrRecording {
+        return {
+            version: XrRecordingVersion,
+            sessionMode: this._experience._sessionMode,
+            events: this._events.slice(),
+        };
+    }
+
+
+    /**
+     * Downloads the recording as a JSON file.
+     * @param filename The name of the file.
+     */
+    download(filename = `xr-recording-${new Date().toISOString()}.json`) {
+        downloadBlob(new Blob([JSON.stringify(this.getRecording())], { type: 'application/json' }), filename);
+    }
+
+
+    /**
+     * Adds an event to the recording.
+     * @param event The event without its time.
+     */
+    record(event: XrRecordedEventData) {
+        this._events.push({ time: performance.now() - this._startTime, ...event });
+    }
+
+
+    /**
+     * Records the session starting and ending, each session starts a new recording.
+     */
+    recordSession() {
+        const xr = this._experience._xr;
+
+        if (xr === null) {
+            return;
+        }
+
+        this.observe(xr.baseExperience.sessionManager.onXRSessionInit, () => {
+            this.clear();
+            this._inSession = true;
+            this.record({ type: 'sessionInit' });
+        });
+
+        this.observe(xr.baseExperience.sessionManager.onXRSessionEnded, () => {
+            this._inSession = false;
+            this.record({ type: 'sessionEnded' });
+
+            if (this._downloadOnSessionEnd) {
+                this.download();
+            }
+            this.clear();
+        });
+    }
+
+
+    /**
+     * Removes the recorded events and restarts the clock of the recording.
+     */
+    clear() {
+        this._events = [];
+        this._poses.clear();
+        this._startTime = performance.now();
+    }
+
+
+    /**
+     * Records the pose of the viewer every frame it moves during the session.
+     */
+    recordViewer() {
+        const xr = this._experience._xr;
+
+        if (xr === null) {
+            return;
+        }
+
+        this.observe(this._experience._scene.onBeforeRenderObservable, () => {
+            const pose = this._inSession ? this.getChangedPose('viewer', xr.baseExperience.camera) : null;
+
+            if (pose !== null) {
+                this.record({ type: 'viewerPose', position: pose.slice(0, 3), rotation: pose.slice(3) });
+            }
+        });
+    }
+
+
+    /**
+     * Records planes being added, updated and removed.
+     */
+    recordPlanes() {
+        const xrPlanes = this._experience._fm?.getEnabledFeature(WebXRFeatureName.PLANE_DETECTION) as WebXRPlaneDetector | undefined;
+
+        if (!xrPlanes) {
+            return;
+        }
+
+        this.observe(xrPlanes.onPlaneAddedObservable, (plane) => {
+            this.record({ type: 'planeAdded', plane: this.serializePlane(plane) });
+        });
+
+        this.observe(xrPlanes.onPlaneUpdatedObservable, (plane) => {
+            this.record({ type: 'planeUpdated', plane: this.serializePlane(plane) });
+        });
+
+        this.observe(xrPlanes.onPlaneRemovedObservable, (plane) => {
+            this.record({ type: 'planeRemoved', id: plane.id });
+        });
+    }
+
+
+    /**
+     * Records meshes being added, updated and removed.
+     */
+    recordMeshes() {
+        const xrMeshes = this._experience._fm?.getEnabledFeature(WebXRFeatureName.MESH_DETECTION) as WebXRMeshDetector | undefined;
+
+        if (!xrMeshes) {
+            return;
+        }
+
+        this.observe(xrMeshes.onMeshAddedObservable, (mesh) => {
+            this.record({ type: 'meshAdded', mesh: this.serializeMesh(mesh) });
+        });
+
+        this.observe(xrMeshes.onMeshUpdatedObservable, (mesh) => {
+            this.record({ type: 'meshUpdated', mesh: this.serializeMesh(mesh) });
+        });
+
+        this.observe(xrMeshes.onMeshRemovedObservable, (mesh) => {
+            this.record({ type: 'meshRemoved', id: mesh.id });
+        });
+    }
+
+
+    /**
+     * Records the results of the hit test.
+     */
+    recordHitTests() {
+        const xrHitTest = this._experience._fm?.getEnabledFeature(WebXRFeatureName.HIT_TEST) as WebXRHitTest | undefined;
+
+        if (!xrHitTest) {
+            return;
+        }
+
+        this.observe(xrHitTest.onHitTestResultObservable, (results: IWebXRHitResult[]) => {
+            this.record({ type: 'hitTest', results: results.map((result) => Array.from(result.transformationMatrix.asArray())) });
+        });
+
+        const hitTestFeature = this._experience.getFeature(HitTestFeature);
+
+        if (hitTestFeature !== null) {
+            this.observe(hitTestFeature.onInputHitTestResultObservable, ({ controller, results }) => {
+                this.record({ type: 'inputHitTest', id: controller.uniqueId, results: results.map((result) => Array.from(result.transformationMatrix.asArray())) });
+            });
+        }
+    }
+
+
+    /**
+     * Records controllers being added and removed, their pointer poses every frame they move and their button events.
+     */
+    recordControllers() {
+        const xr = this._experience._xr;
+
+        if (xr === null) {
+            return;
+        }
+
+        this.observe(xr.input.onControllerAddedObservable, (controller: WebXRInputSource) => {
+            controller.onMotionControllerInitObservable.add((motionController) => {
+                const componentIds = motionController.getComponentIds();
+
+                this.record({
+                    type: 'controllerAdded',
+                    controller: {
+                        id: controller.uniqueId,
+                        handedness: motionController.handedness as XRHandedness,
+                        profileId: motionController.profileId,
+                        componentIds: componentIds,
+                        targetRayMode: controller.inputSource.targetRayMode === 'tracked-pointer' ? undefined : controller.inputSource.targetRayMode,
+                    },
+                });
+
+                componentIds.forEach((componentId) => {
+                    motionController.getComponent(componentId).onButtonStateChangedObservable.add((component) => {
+                        this.record({
+                            type: 'button',
+                            id: controller.uniqueId,
+                            componentId: componentId,
+                            pressed: component.pressed,
+                            touched: component.touched,
+                            value: component.value,
+                        });
+                    });
+                });
+            });
+        });
+
+        this.observe(xr.input.onControllerRemovedObservable, (controller: WebXRInputSource) => {
+            this._poses.delete(controller.uniqueId);
+            this.record({ type: 'controllerRemoved', id: controller.uniqueId });
+        });
+
+        this.observe(this._experience._scene.onBeforeRenderObservable, () => {
+            xr.input.controllers.forEach((controller) => this.recordControllerPose(controller));
+        });
+    }
+
+
+    /**
+     * Records the pose of the controller pointer if it changed since it was last recorded.
+     * @param controller The controller.
+     */
+    recordControllerPose(controller: WebXRInputSource) {
+        const pose = this.getChangedPose(controller.uniqueId, controller.pointer);
+
+        if (pose !== null) {
+            this.record({ type: 'controllerPose', id: controller.uniqueId, position: pose.slice(0, 3), rotation: pose.slice(3) });
+        }
+    }
+
+
+    /**
+     * Returns the pose of a node if it changed since it was last recorded.
+     * @param id The id the pose is recorded with, i.e. of the controller.
+     * @param node The node, i.e. the pointer of a controller or the camera.
+     * @returns The position and the rotation quaternion, or null if the pose did not change.
+     */
+    getChangedPose(id: string, node: { position: Vector3, rotation: Vector3, rotationQuaternion: Nullable<Quaternion> }): number[] | null {
+        const rotation = node.rotationQuaternion ?? Quaternion.FromEulerVector(node.rotation);
+        const pose = [...node.position.asArray(), ...rotation.asArray()];
+        const lastPose = this._poses.get(id);
+
+        if (lastPose && lastPose.every((value, i) => Math.abs(value - pose[i]) < 1e-4)) {
+            return null;
+        }
+
+        this._poses.set(id, pose);
+        return pose;
+    }
+
+
+    /**
+     * Copies a plane into its recorded form.
+     * @param plane The plane.
+     */
+    serializePlane(plane: IWebXRPlane): RecordedPlane {
+        const semanticLabel = (plane.xrPlane as XRPlane & { semanticLabel?: string }).semanticLabel;
+
+        return {
+            id: plane.id,
+            orientation: plane.xrPlane.orientation,
+            semanticLabel: semanticLabel,
+            polygon: plane.polygonDefinition.map((p) => p.asArray()),
+            transformationMatrix: Array.from(plane.transformationMatrix.asArray()),
+        };
+    }
+
+
+    /**
+     * Copies a mesh into its recorded form.
+     * @param mesh The mesh.
+     */
+    serializeMesh(mesh: IWebXRVertexData): RecordedMesh {
+        const semanticLabel = (mesh.xrMesh as XRMesh & { semanticLabel?: string }).semanticLabel;
+
+        return {
+            id: mesh.id,
+            semanticLabel: semanticLabel,
+            positions: Array.from(mesh.positions ?? []),
+            indices: Array.from(mesh.indices ?? []),
+            transformationMatrix: Array.from(mesh.transformationMatrix?.asArray() ?? Matrix.IdentityReadOnly.asArray()),
+        };
+    }
+}
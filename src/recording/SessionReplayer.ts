@@ -0,0 +1,325 @@
+import {
+    IWebXRPlane,
+    IWebXRVertexData,
+    Matrix,
+    Nullable,
+    Observable,
+    Observer,
+    Quaternion,
+    Scene,
+    Vector3,
+} from '@babylonjs/core';
+
+import { XrExperience } from '../core/XrExperience';
+import { errorMessage, Logger } from '../core/Logger';
+import { classArguments } from '../core/types';
+import { FakeInputSource, FakeXrSession } from '../harness/FakeXrSession';
+import { RecordedMesh, RecordedPlane, XrRecordedEvent, XrRecording } from './XrRecording';
+
+/**
+ * Replays a recording through a fake XR session, so the events take the same code paths
+ * as they did in the recorded session.
+ * Events are replayed either in real time with `play`, or deterministically with `replayUntil` and `replayAll`.
+ * Starting the session is asynchronous, the events after it are held back until the session started,
+ * so they are replayed in the same order as in the recorded session.
+ */
+export class SessionReplayer {
+    _recording: XrRecording;
+    _session: FakeXrSession;
+    _cursor: number;
+    _time: number;
+    _planes: Map<number, IWebXRPlane>;
+    _meshes: Map<number, IWebXRVertexData>;
+    _controllers: Map<string, FakeInputSource>;
+    _renderObserver: Nullable<Observer<Scene>>;
+    _starting: Promise<void> | null;
+    _ended: boolean;
+    _logger: Logger;
+    onReplayEndedObservable: Observable<SessionReplayer>;
+
+
+    /**
+     * @param recording The recording to replay.
+     * @param session The fake session to replay it through.
+     * @param logger The logger errors of the replay are written to, i.e. the logger of the experience.
+     */
+    constructor(recording: XrRecording, session: FakeXrSession, logger = new Logger()) {
+        this._recording = recording;
+        this._session = session;
+        this._cursor = 0;
+        this._time = 0;
+        this._planes = new Map();
+        this._meshes = new Map();
+        this._controllers = new Map();
+        this._renderObserver = null;
+        // The start of the replayed session, the events after it wait until it settled
+        this._starting = null;
+        this._ended = false;
+        this._logger = logger;
+        this.onReplayEndedObservable = new Observable();
+    }
+
+
+    /**
+     * Whether all events have been replayed and the session is not being started anymore.
+     */
+    get isDone(): boolean {
+        return this._cursor >= this._recording.events.length && this._starting === null;
+    }
+
+
+    /**
+     * Replays the events in real time, driven by the render loop of the scene.
+     * @param scene The scene to drive the replay with.
+     */
+    play(scene: Scene) {
+        this.stop();
+        this._renderObserver = scene.onBeforeRenderObservable.add(() => {
+            this.replayPending(this._time + scene.getEngine().getDeltaTime());
+
+            if (this.isDone) {
+                this.stop();
+            }
+        });
+    }
+
+
+    /**
+     * Stops replaying in real time.
+     */
+    stop() {
+        if (this._renderObserver !== null) {
+            this._renderObserver.remove();
+            this._renderObserver = null;
+        }
+    }
+
+
+    /**
+     * Replays all events up to the time.
+     * @param time The time in milliseconds since the recording started.
+     * @returns A promise that resolves once the events are replayed, including the ones waiting for the session to start.
+     */
+    async replayUntil(time: number): Promise<void> {
+        this.replayPending(time);
+
+        while (this._starting !== null) {
+            await this._starting;
+        }
+    }
+
+
+    /**
+     * Replays all remaining events.
+     * @returns A promise that resolves once all events are replayed.
+     */
+    async replayAll(): Promise<void> {
+        await this.replayUntil(Infinity);
+    }
+
+
+    /**
+     * Replays the events up to the time, as far as they don't wait for the session to start.
+     * The waiting events are replayed once the session started, up to the time given last.
+     * @param time The time in milliseconds since the recording started.
+     */
+    replayPending(time: number) {
+        const events = this._recording.events;
+
+        this._time = time;
+
+        while (this._starting === null && this._cursor < events.length && events[this._cursor].time <= this._time) {
+            this.replayEvent(events[this._cursor++]);
+        }
+
+        if (!this._ended && this.isDone) {
+            this._ended = true;
+            this.onReplayEndedObservable.notifyObservers(this);
+        }
+    }
+
+
+    /**
+     * Replays a single event through the fake session.
+     * @param event The recorded event.
+     */
+    replayEvent(event: XrRecordedEvent) {
+        switch (event.type) {
+            case 'sessionInit':
+                this._starting = this._session.startSession().catch((error) => {
+                    this._logger.error("replay", `Unable to start the replayed session: ${errorMessage(error)}`, error);
+                }).then(() => {
+                    this._starting = null;
+                    this.replayPending(this._time);
+                });
+                break;
+            case 'sessionEnded':
+                this._session.endSession();
+                this._planes.clear();
+                this._meshes.clear();
+                this._controllers.clear();
+                break;
+            case 'planeAdded':
+                this._planes.set(event.plane.id, this._session.planes.addPlane({
+                    orientation: event.plane.orientation,
+                    semanticLabel: event.plane.semanticLabel,
+                    ...this.deserializePlane(event.plane),
+                }));
+                break;
+            case 'planeUpdated': {
+                const plane = this._planes.get(event.plane.id);
+                if (plane) {
+                    this._session.planes.updatePlane(plane, this.deserializePlane(event.plane));
+                }
+                break;
+            }
+            case 'planeRemoved': {
+                const plane = this._planes.get(event.id);
+                if (plane) {
+                    this._planes.delete(event.id);
+                    this._session.planes.removePlane(plane);
+                }
+                break;
+            }
+            case 'meshAdded':
+                this._meshes.set(event.mesh.id, this._session.meshes.addMesh({
+                    semanticLabel: event.mesh.semanticLabel,
+                    ...this.deserializeMesh(event.mesh),
+                }));
+                break;
+            case 'meshUpdated': {
+                const mesh = this._meshes.get(event.mesh.id);
+                if (mesh) {
+                    this._session.meshes.updateMesh(mesh, this.deserializeMesh(event.mesh));
+                }
+                break;
+            }
+            case 'meshRemoved': {
+                const mesh = this._meshes.get(event.id);
+                if (mesh) {
+                    this._meshes.delete(event.id);
+                    this._session.meshes.removeMesh(mesh);
+                }
+                break;
+            }
+            case 'viewerPose': {
+                const camera = this._session.camera;
+                camera.position.fromArray(event.position);
+                camera.rotationQuaternion = Quaternion.FromArray(event.rotation);
+                break;
+            }
+            case 'hitTest':
+                this._session.hitTest.emitResults(event.results.map((result) => this.deserializeHit(result)));
+                break;
+            case 'inputHitTest': {
+                const controller = this._controllers.get(event.id);
+                if (controller) {
+                    this._session.emitInputHitTestResults(controller, event.results.map((result) => this.deserializeHit(result)));
+                }
+                break;
+            }
+            case 'controllerAdded':
+                this._controllers.set(event.controller.id, this._session.addController({
+                    handedness: event.controller.handedness,
+                    profileId: event.controller.profileId,
+                    componentIds: event.controller.componentIds,
+                    targetRayMode: event.controller.targetRayMode,
+                }));
+                break;
+            case 'controllerRemoved': {
+                const controller = this._controllers.get(event.id);
+                if (controller) {
+                    this._controllers.delete(event.id);
+                    this._session.removeController(controller);
+                }
+                break;
+            }
+            case 'controllerPose':
+                this._controllers.get(event.id)?.setPose(Vector3.FromArray(event.position), Quaternion.FromArray(event.rotation));
+                break;
+            case 'button': {
+                const controller = this._controllers.get(event.id);
+                if (controller) {
+                    this._session.setButtonState(controller, event.componentId, event.pressed, event.touched, event.value);
+                }
+                break;
+            }
+        }
+    }
+
+
+    /**
+     * Converts a recorded plane back into a polygon and a pose.
+     * @param plane The recorded plane.
+     */
+    deserializePlane(plane: RecordedPlane): { polygon: Vector3[], transformationMatrix: Matrix } {
+        return {
+            polygon: plane.polygon.map((p) => Vector3.FromArray(p)),
+            transformationMatrix: Matrix.FromArray(plane.transformationMatrix),
+        };
+    }
+
+
+    /**
+     * Converts a recorded mesh back into its vertices and its pose.
+     * @param mesh The recorded mesh.
+     */
+    deserializeMesh(mesh: RecordedMesh): { positions: number[], indices: number[], position: Vector3, rotation: Quaternion } {
+        const position = new Vector3();
+        const rotation = new Quaternion();
+
+        Matrix.FromArray(mesh.transformationMatrix).decompose(undefined, rotation, position);
+
+        return { positions: mesh.positions, indices: mesh.indices, position, rotation };
+    }
+
+
+    /**
+     * Converts a recorded hit back into a position and a rotation.
+     * @param result The pose of the hit.
+     */
+    deserializeHit(result: number[]): { position: Vector3, rotation: Quaternion } {
+        const position = new Vector3();
+        const rotation = new Quaternion();
+
+        Matrix.FromArray(result).decompose(undefined, rotation, position);
+
+        return { position, rotation };
+    }
+}
+
+
+/**
+ * Creates the experience with a fake XR session and replays the recording in real time,
+ * so a recorded session can be watched and debugged on desktop. The camera follows the recorded pose of the viewer,
+ * it is controlled with the mouse until the first pose is replayed.
+ * @param args The arguments of the experience.
+ * @param recording The recording to replay.
+ * @returns A promise that resolves with the experience and the replayer once the replay started.
+ */
+export async function replayRecording(args: classArguments, recording: XrRecording): Promise<{ experience: XrExperience, replayer: SessionReplayer }> {
+    let session = null as FakeXrSession | null;
+
+    const sessionMode = recording.sessionMode ?? "immersive-ar";
+
+    const experience = new XrExperience({
+        ...args,
+        sessionModes: [sessionMode],
+        supportedSessionModes: [sessionMode],
+        xrFactory: async (scene: Scene) => {
+            session = new FakeXrSession(scene);
+            return session.asDefaultExperience();
+        },
+    });
+
+    await experience.whenReady();
+
+    if (experience._canvas !== null) {
+        session!.camera.attachControl(true);
+    }
+
+    const replayer = new SessionReplayer(recording, session!, experience._logger);
+    replayer.play(experience._scene);
+
+    return { experience, replayer };
+}
@@ -0,0 +1,108 @@
+import type { SessionModes } from '../core/types';
+
+/**
+ * The version of the recording format, bumped whenever the format changes.
+ * Version 2 added the pose of the viewer and the detected meshes, recordings of version 1 replay without them.
+ */
+export const XrRecordingVersion = 2;
+
+export type RecordedPlane = {
+    id: number;
+    orientation: XRPlaneOrientation;
+    semanticLabel?: string;
+    /**
+     * The polygon of the plane in plane space, as [x, y, z] points.
+     */
+    polygon: number[][];
+    transformationMatrix: number[];
+}
+
+export type RecordedMesh = {
+    id: number;
+    semanticLabel?: string;
+    /**
+     * The vertices of the mesh in mesh space, x, y and z of each vertex.
+     */
+    positions: number[];
+    indices: number[];
+    transformationMatrix: number[];
+}
+
+export type RecordedController = {
+    id: string;
+    handedness: XRHandedness;
+    profileId: string;
+    componentIds: string[];
+    /**
+     * "screen" for a transient input, left out for a controller.
+     */
+    targetRayMode?: XRTargetRayMode;
+}
+
+export type XrRecordedEventData =
+    | { type: 'sessionInit' }
+    | { type: 'sessionEnded' }
+    | { type: 'planeAdded', plane: RecordedPlane }
+    | { type: 'planeUpdated', plane: RecordedPlane }
+    | { type: 'planeRemoved', id: number }
+    | { type: 'meshAdded', mesh: RecordedMesh }
+    | { type: 'meshUpdated', mesh: RecordedMesh }
+    | { type: 'meshRemoved', id: number }
+    | { type: 'viewerPose', position: number[], rotation: number[] }
+    | { type: 'hitTest', results: number[][] }
+    | { type: 'inputHitTest', id: string, results: number[][] }
+    | { type: 'controllerAdded', controller: RecordedController }
+    | { type: 'controllerRemoved', id: string }
+    | { type: 'controllerPose', id: string, position: number[], rotation: number[] }
+    | { type: 'button', id: string, componentId: string, pressed: boolean, touched: boolean, value: number };
+
+export type XrRecordedEvent = { time: number } & XrRecordedEventData;
+
+/**
+ * A recorded XR session, events are ordered by the time in milliseconds since the recording started.
+ */
+export type XrRecording = {
+    version: number;
+    /**
+     * The session mode the recording was made in, the replay uses the same one.
+     */
+    sessionMode?: SessionModes;
+    events: XrRecordedEvent[];
+}
+
+
+/**
+ * Parses a recording and checks that it is in a format this version can replay.
+ * @param json The JSON document of the recording.
+ * @returns The recording.
+ * @throws {Error} Throws an error if the document is not a recording or has an unsupported version.
+ */
+export function parseRecording(json: string): XrRecording {
+    const recording = JSON.parse(json) as XrRecording;
+
+    if (!recording || !Array.isArray(recording.events)) {
+        throw new Error('Invalid XR recording: events are missing');
+    }
+
+    if (!Number.isInteger(recording.version) || recording.version < 1 || recording.version > XrRecordingVersion) {
+        throw new Error(`Unsupported XR recording version ${recording.version}, expected ${XrRecordingVersion} or lower`);
+    }
+
+    return recording;
+}
+
+
+/**
+ * Loads a recording from a URL.
+ * @param url The URL of the JSON document.
+ * @returns A promise that resolves with the recording.
+ */
+export async function loadRecording(url: string): Promise<XrRecording> {
+    const response = await fetch(url);
+
+    if (!response.ok) {
+        throw new Error(`Unable to load XR recording ${url}: ${response.status}`);
+    }
+
+    return parseRecording(await response.text());
+}
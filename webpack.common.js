@@ -3,13 +3,13 @@ const fs = require("fs");
 const webpack = require("webpack");
 const HtmlWebpackPlugin = require("html-webpack-plugin");
 const { CleanWebpackPlugin } = require("clean-webpack-plugin");
-const part = process.env.npm_config_part || "1";
 
 // App directory
 const appDirectory = fs.realpathSync(process.cwd());
 
 module.exports = {
-    entry: path.resolve(appDirectory, `src/index_${part}.ts`),
+    // The launcher lists all parts and runs the one selected with ?part=N
+    entry: path.resolve(appDirectory, "src/index.ts"),
     resolve: {
         extensions: [".ts", ".js"],
         fallback: {
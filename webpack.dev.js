@@ -5,6 +5,7 @@ const fs = require('fs');
 
 // App directory
 const appDirectory = fs.realpathSync(process.cwd());
+const part = process.env.npm_config_part;
 
 module.exports = merge(common, {
     mode: 'development',
@@ -14,6 +15,6 @@ module.exports = merge(common, {
         compress: true,
         allowedHosts: 'all',
         hot: true,
-        open: true,
+        open: part ? `/?part=${part}` : true,
     },
 });
\ No newline at end of file